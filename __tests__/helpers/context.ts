@@ -0,0 +1,41 @@
+/**
+ * Shared fixtures for unit tests that need a pull request context.
+ */
+import { agentConfigSchema } from "@/lib/agents/agent-config";
+import { PullRequestContext, PullRequestContextWithTests } from "@/lib/agents/pr-context";
+
+type ChangedFile = PullRequestContext["changedFiles"][number];
+
+// The PR every fixture belongs to
+export const TARGET = { owner: "acme", repo: "web", pullNumber: 7 };
+
+/**
+ * Overrides for a fixture context; config is the raw config file content, parsed with the defaults.
+ */
+export type ContextOverrides = Partial<Omit<PullRequestContextWithTests, "config">> & {
+  config?: Record<string, unknown>;
+};
+
+export function createContext(overrides: ContextOverrides = {}): PullRequestContext {
+  const { config, existingTestFiles, ...rest } = overrides;
+  return {
+    ...TARGET,
+    headRef: "feature",
+    headSha: "head123",
+    baseRef: "main",
+    title: "Feature",
+    labels: [],
+    changedFiles: [],
+    commitMessages: [],
+    ...rest,
+    config: agentConfigSchema.parse(config ?? {})
+  };
+}
+
+export function createTestContext(overrides: ContextOverrides = {}): PullRequestContextWithTests {
+  return { ...createContext(overrides), existingTestFiles: overrides.existingTestFiles ?? [] };
+}
+
+export function changedFile(filename: string, overrides: Partial<ChangedFile> = {}): ChangedFile {
+  return { filename, patch: "", status: "modified", additions: 1, deletions: 0, ...overrides };
+}
@@ -0,0 +1,154 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  DEFAULT_AGENT_CONFIG,
+  getPathSettings,
+  loadAgentConfig,
+  matchesGlob,
+  parseAgentConfig,
+  withTrustedSettings
+} from "@/lib/agents/agent-config";
+
+describe("agent config", () => {
+  let dir: string;
+
+  const write = (filename: string, content: string) => fs.writeFileSync(path.join(dir, filename), content);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-agent-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("uses the defaults without a config file", () => {
+    expect(loadAgentConfig(dir)).toBe(DEFAULT_AGENT_CONFIG);
+    expect(DEFAULT_AGENT_CONFIG).toMatchObject({ testDir: "__tests__/unit", scope: ["app"], maxIterations: 3 });
+  });
+
+  it("reads JSON before YAML and fills in the defaults", () => {
+    write(".ai-agent.yml", "maxIterations: 1\n");
+    write(".ai-agent.json", JSON.stringify({ maxIterations: 2, steps: { review: false } }));
+
+    const config = loadAgentConfig(dir);
+    expect(config.maxIterations).toBe(2);
+    expect(config.steps).toEqual({ review: false, gating: true, testGeneration: true, testRun: true, testFix: true });
+    expect(config.testDir).toBe("__tests__/unit");
+  });
+
+  it("reads YAML files", () => {
+    write(".ai-agent.yaml", "scope: [app, components]\noverrides:\n  - paths: ['app/legacy/**']\n    tests: false\n");
+
+    const config = loadAgentConfig(dir);
+    expect(config.scope).toEqual(["app", "components"]);
+    expect(config.overrides).toEqual([{ paths: ["app/legacy/**"], tests: false }]);
+  });
+
+  it("treats an empty YAML file as an empty config", () => {
+    write(".ai-agent.yml", "# Nothing configured yet\n");
+    expect(loadAgentConfig(dir)).toEqual(DEFAULT_AGENT_CONFIG);
+  });
+
+  it("reports files that can't be parsed", () => {
+    write(".ai-agent.json", "{ maxIterations: 2 ");
+    expect(() => loadAgentConfig(dir)).toThrow(/^Could not parse \.ai-agent\.json: /);
+  });
+
+  it("lists every problem, including unknown keys", () => {
+    write(".ai-agent.yml", "maxIterations: -1\nreviw: false\nsteps:\n  timeout: 60\n");
+
+    expect(() => loadAgentConfig(dir)).toThrow(
+      "Invalid .ai-agent.yml:\n" +
+        "- `maxIterations`: Number must be greater than or equal to 0\n" +
+        "- `steps`: Unrecognized key(s) in object: 'timeout'\n" +
+        "- `(root)`: Unrecognized key(s) in object: 'reviw'"
+    );
+  });
+
+  it("takes the security settings from the trusted config only", () => {
+    const head = parseAgentConfig(
+      ".ai-agent.yml",
+      "maxIterations: 1\nsandbox:\n  enabled: false\nredaction:\n  enabled: false\nchecks:\n  failOnSeverity: none\n"
+    );
+    const base = parseAgentConfig(".ai-agent.json", JSON.stringify({ maxIterations: 5, sandbox: { maxMemoryMb: 1024 } }));
+
+    const config = withTrustedSettings(head, base);
+    expect(config.maxIterations).toBe(1);
+    expect(config.sandbox).toMatchObject({ enabled: true, maxMemoryMb: 1024, isolation: "namespace" });
+    expect(config.redaction.enabled).toBe(true);
+    expect(config.checks.failOnSeverity).toBe("critical");
+  });
+
+  it("keeps a PR from widening where tests may be written or raising the budget", () => {
+    const head = parseAgentConfig(
+      ".ai-agent.json",
+      JSON.stringify({
+        allowedTestRoots: ["lib", ".github"],
+        testDir: ".github/workflows",
+        delivery: "commit",
+        budget: { maxCostUsd: 1000 },
+        pricing: { "gpt-4o": { input: 0, output: 0 } },
+        staticChecks: { enabled: false }
+      })
+    );
+    const base = parseAgentConfig(".ai-agent.json", JSON.stringify({ delivery: "suggest", budget: { maxCostUsd: 2 } }));
+
+    const config = withTrustedSettings(head, base);
+    expect(config.allowedTestRoots).toBeUndefined();
+    expect(config.testDir).toBe("__tests__/unit");
+    expect(config.delivery).toBe("suggest");
+    expect(config.budget.maxCostUsd).toBe(2);
+    expect(config.pricing).toEqual(base.pricing);
+    expect(config.staticChecks.enabled).toBe(true);
+  });
+});
+
+describe("path settings", () => {
+  const config = {
+    ...DEFAULT_AGENT_CONFIG,
+    scope: ["app", "lib/"],
+    overrides: [
+      { paths: ["app/legacy/**"], tests: false, maxFileSize: 100 },
+      { paths: ["app/**/*.tsx"], exclude: true, tests: true }
+    ]
+  };
+
+  it("applies the first matching override only", () => {
+    expect(getPathSettings(config, "app/legacy/page.tsx")).toEqual({ exclude: false, maxFileSize: 100, tests: false });
+    expect(getPathSettings(config, "app/about/page.tsx")).toEqual({ exclude: true, maxFileSize: 32000, tests: true });
+  });
+
+  it("falls back to the global settings", () => {
+    expect(getPathSettings(config, "lib/utils.ts")).toEqual({ exclude: false, maxFileSize: 32000, tests: true });
+    expect(getPathSettings(config, "components/button.ts")).toMatchObject({ tests: false });
+    expect(getPathSettings(config, "package-lock.json")).toMatchObject({ exclude: true });
+  });
+});
+
+describe("glob matching", () => {
+  it("lets **/ match zero or more directories", () => {
+    expect(matchesGlob("package-lock.json", "**/package-lock.json")).toBe(true);
+    expect(matchesGlob("a/b/package-lock.json", "**/package-lock.json")).toBe(true);
+    expect(matchesGlob("app/page.tsx", "app/**/*.tsx")).toBe(true);
+    expect(matchesGlob("app/a/b/page.tsx", "app/**/*.tsx")).toBe(true);
+    expect(matchesGlob("my-package-lock.json", "**/package-lock.json")).toBe(false);
+  });
+
+  it("keeps * and ? within one path segment", () => {
+    expect(matchesGlob("app/page.tsx", "app/*.tsx")).toBe(true);
+    expect(matchesGlob("app/about/page.tsx", "app/*.tsx")).toBe(false);
+    expect(matchesGlob("id_rsa1", "id_rsa?")).toBe(true);
+    expect(matchesGlob("app/x", "app?x")).toBe(false);
+    expect(matchesGlob("app/legacy/a/b.ts", "app/legacy/**")).toBe(true);
+  });
+
+  it("matches dots and other special characters literally", () => {
+    expect(matchesGlob("apptsx", "app.tsx")).toBe(false);
+    expect(matchesGlob("app(1).tsx", "app(1).tsx")).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import {
+  completeCheck,
+  resetChecks,
+  reviewCheckResult,
+  startCheck
+} from "@/lib/agents/check-runs";
+import { ReviewFinding } from "@/lib/agents/code-review";
+import { changedFile, createContext } from "@/__tests__/helpers/context";
+
+const createCheckContext = (config = {}) =>
+  createContext({ headSha: "aaaaaaa1111111", changedFiles: [changedFile("app/a.ts")], config });
+
+function createOctokit() {
+  let nextId = 1;
+  return {
+    checks: {
+      create: jest.fn().mockImplementation(async () => ({ data: { id: nextId++ } })),
+      update: jest.fn().mockImplementation(async (params: any) => ({ data: { id: params.check_run_id } }))
+    }
+  };
+}
+
+function finding(overrides: Partial<ReviewFinding>): ReviewFinding {
+  return { path: "app/a.ts", startLine: 3, line: 3, side: "RIGHT", severity: "low", category: "bug", message: "m", ...overrides };
+}
+
+describe("check runs", () => {
+  beforeEach(() => resetChecks());
+
+  it("fails the review check on findings at or above the configured severity", () => {
+    const analysis = {
+      summary: "s",
+      fileAnalyses: [],
+      overallSuggestions: [],
+      findings: [
+        finding({ severity: "high", startLine: 1 }),
+        finding({ side: "LEFT" }),
+        finding({ path: "elsewhere.ts" })
+      ]
+    };
+
+    const result = reviewCheckResult(createCheckContext({ checks: { failOnSeverity: "high" } }), analysis);
+    expect(result.conclusion).toBe("failure");
+    expect(result.annotations).toEqual([
+      { path: "app/a.ts", start_line: 1, end_line: 3, annotation_level: "failure", title: "high · bug", message: "m" }
+    ]);
+    expect(reviewCheckResult(createCheckContext({ checks: { failOnSeverity: "none" } }), analysis).conclusion).toBe("success");
+  });
+
+  it("sends annotations in batches of 50", async () => {
+    const octokit = createOctokit();
+    const context = createCheckContext();
+    await startCheck(octokit, context, "review");
+    await completeCheck(octokit, context, "review", {
+      conclusion: "success",
+      title: "t",
+      summary: "s",
+      annotations: Array.from({ length: 120 }, (_, i) => ({
+        path: "app/a.ts", start_line: i + 1, end_line: i + 1, annotation_level: "notice" as const, title: "t", message: "m"
+      }))
+    });
+
+    expect(octokit.checks.update.mock.calls.map(([p]: any) => p.output.annotations.length)).toEqual([50, 50, 20]);
+  });
+
+  it("re-creates the run's checks on the new head after the agent commits", async () => {
+    const octokit = createOctokit();
+    const context = createCheckContext();
+    await startCheck(octokit, context, "review");
+    await completeCheck(octokit, context, "review", { conclusion: "success", title: "t", summary: "s" });
+    await startCheck(octokit, context, "test-generation");
+
+    context.headSha = "bbbbbbb2222222";
+    await completeCheck(octokit, context, "test-generation", { conclusion: "success", title: "t", summary: "s" });
+
+    const created = octokit.checks.create.mock.calls.map(([p]: any) => [p.name, p.head_sha, p.status]);
+    expect(created).toEqual([
+      ["AI Agent: Review", "aaaaaaa1111111", "in_progress"],
+      ["AI Agent: Test Generation", "aaaaaaa1111111", "in_progress"],
+      ["AI Agent: Review", "bbbbbbb2222222", "completed"],
+      ["AI Agent: Test Generation", "bbbbbbb2222222", "in_progress"]
+    ]);
+    const updates = octokit.checks.update.mock.calls.map(([p]: any) => [p.check_run_id, p.conclusion]);
+    expect(updates).toEqual([
+      [1, "success"],
+      [2, "neutral"],
+      [4, "success"]
+    ]);
+  });
+
+  it("stops using checks when the token isn't allowed to create them", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const octokit = createOctokit();
+    octokit.checks.create.mockRejectedValueOnce(Object.assign(new Error("Resource not accessible"), { status: 403 }));
+    const context = createCheckContext();
+
+    await startCheck(octokit, context, "review");
+    await startCheck(octokit, context, "test-generation");
+    expect(octokit.checks.create).toHaveBeenCalledTimes(1);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runFlow } from "@/lib/agents/flow-runner";
+import { getReplayedRequests, resetFixtures } from "@/lib/agents/record-replay";
+
+const scenarioDir = path.join(__dirname, "../fixtures/scenarios/review-only");
+
+describe("runFlow replay", () => {
+  const originalEnv = process.env;
+  const originalCwd = process.cwd();
+  let workDir: string;
+
+  beforeEach(() => {
+    resetFixtures();
+    process.env = {
+      ...originalEnv,
+      GITHUB_TOKEN: "replay-token",
+      GITHUB_EVENT_PATH: path.join(scenarioDir, "event.json"),
+      GITHUB_REPOSITORY: "acme/web",
+      AI_AGENT_FIXTURES_MODE: "replay",
+      AI_AGENT_FIXTURES_DIR: scenarioDir
+    };
+    // The agent config is read from (and reports are written to) the working directory
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-agent-replay-"));
+    fs.copyFileSync(path.join(scenarioDir, ".ai-agent.json"), path.join(workDir, ".ai-agent.json"));
+    process.chdir(workDir);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("reviews the PR and skips test generation using recorded responses", async () => {
+    await expect(runFlow()).resolves.toBe(true);
+
+    const requests = getReplayedRequests();
+    const review = requests.find(
+      r => r.method === "POST" && r.url.endsWith("/pulls/7/reviews")
+    );
+    expect(review?.body).toMatchObject({
+      event: "COMMENT",
+      comments: [expect.objectContaining({ path: "app/about/page.tsx", position: 4 })]
+    });
+
+    const commentUpdates = requests.filter(r => r.method === "PATCH");
+    const lastReviewUpdate = commentUpdates
+      .filter(r => r.url.endsWith("/comments/101"))
+      .pop();
+    expect((lastReviewUpdate?.body as any).body).toContain(
+      "Updates the About page heading."
+    );
+    const lastTestUpdate = commentUpdates
+      .filter(r => r.url.endsWith("/comments/102"))
+      .pop();
+    expect((lastTestUpdate?.body as any).body).toContain(
+      "Skipping test generation: The existing AboutPage test covers the heading."
+    );
+    expect((lastTestUpdate?.body as any).body).toContain("💰 LLM usage:");
+
+    const checkRuns = requests.filter(r => r.url.includes("/check-runs"));
+    expect(checkRuns.map(r => (r.body as any).name ?? (r.body as any).conclusion)).toEqual([
+      "AI Agent: Review",
+      "success",
+      "AI Agent: Test Generation",
+      "success"
+    ]);
+    expect((checkRuns[1].body as any).output.annotations).toEqual([
+      expect.objectContaining({ path: "app/about/page.tsx", start_line: 10, end_line: 10, annotation_level: "warning" })
+    ]);
+
+    const ledger = JSON.parse(
+      fs.readFileSync(path.join(workDir, "reports/ai-agent/run-ledger.json"), "utf8")
+    );
+    expect(ledger.calls.map((c: any) => c.step)).toEqual(["review", "gating"]);
+  });
+
+  it("runs in the PR's checkout", async () => {
+    // The agent starts next to its own code; the PR's checkout holds the config and gets the reports
+    process.chdir(originalCwd);
+    process.env.AI_AGENT_WORKSPACE = workDir;
+
+    await expect(runFlow()).resolves.toBe(true);
+    expect(process.cwd()).toBe(fs.realpathSync(workDir));
+    expect(fs.existsSync(path.join(workDir, "reports/ai-agent/run-ledger.json"))).toBe(true);
+  });
+
+  it("uses only the base branch's config without the PR's checkout", async () => {
+    fs.writeFileSync(path.join(workDir, ".ai-agent.json"), "{ not json");
+    process.env.AI_AGENT_WORKSPACE = "none";
+
+    await expect(runFlow()).resolves.toBe(true);
+    expect(getReplayedRequests().some(r => r.url.endsWith("/pulls/7/reviews"))).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { agentConfigSchema, DEFAULT_AGENT_CONFIG } from "@/lib/agents/agent-config";
+import {
+  fitComment,
+  formatCommentMarker,
+  isAgentAccount,
+  parseComment,
+  updateComment,
+  upsertComment
+} from "@/lib/agents/github-comments";
+import { TARGET } from "@/__tests__/helpers/context";
+
+const agent = { login: "github-actions[bot]", type: "Bot" };
+const alice = { login: "alice", type: "User" };
+const dependabot = { login: "dependabot[bot]", type: "Bot" };
+
+const target = { ...TARGET, config: DEFAULT_AGENT_CONFIG };
+
+function createOctokit(comments: { id: number; body: string; updated_at?: string; user?: typeof agent }[]) {
+  return {
+    issues: {
+      listComments: jest.fn(),
+      createComment: jest.fn().mockResolvedValue({ data: { id: 500 } }),
+      updateComment: jest.fn().mockResolvedValue({})
+    },
+    paginate: jest.fn().mockResolvedValue(comments.map(c => ({ user: agent, ...c })))
+  };
+}
+
+describe("agent comments", () => {
+  it("creates a marked comment when there is none yet", async () => {
+    const octokit = createOctokit([{ id: 1, body: "LGTM" }]);
+    const id = await upsertComment(octokit, target, "review", "### AI Code Review\nfirst", 5);
+
+    expect(id).toBe(500);
+    expect(octokit.issues.createComment.mock.calls[0][0].body).toBe(
+      `### AI Code Review\nfirst\n\n${formatCommentMarker("review")}`
+    );
+  });
+
+  it("updates the existing comment and moves the previous run into the history", async () => {
+    const marker = formatCommentMarker("review");
+    const octokit = createOctokit([{ id: 42, body: `### AI Code Review\nfirst\n\n${marker}`, updated_at: "2026-10-01T10:00:00Z" }]);
+
+    const id = await upsertComment(octokit, target, "review", "### AI Code Review\n_(initializing...)_", 5);
+    await updateComment(octokit, TARGET, id, "### AI Code Review\nsecond");
+
+    expect(id).toBe(42);
+    expect(octokit.issues.createComment).not.toHaveBeenCalled();
+    const body: string = octokit.issues.updateComment.mock.calls[1][0].body;
+    expect(body.startsWith("### AI Code Review\nsecond")).toBe(true);
+    expect(body).toContain("Earlier runs (1)");
+    expect(parseComment(body, marker)).toEqual({
+      current: "### AI Code Review\nsecond",
+      history: ["**Run updated 2026-10-01T10:00:00Z**\n\n### AI Code Review\nfirst"]
+    });
+  });
+
+  it("never takes over a copied marker in someone else's comment", async () => {
+    const octokit = createOctokit([{ id: 42, body: `Hijacked\n\n${formatCommentMarker("review")}`, user: alice }]);
+
+    await expect(upsertComment(octokit, target, "review", "### AI Code Review", 5)).resolves.toBe(500);
+    expect(octokit.issues.updateComment).not.toHaveBeenCalled();
+  });
+
+  it("ignores markers in comments by other bots", async () => {
+    const octokit = createOctokit([{ id: 42, body: `Bumps lodash\n\n${formatCommentMarker("review")}`, user: dependabot }]);
+
+    await expect(upsertComment(octokit, target, "review", "### AI Code Review", 5)).resolves.toBe(500);
+    expect(octokit.issues.updateComment).not.toHaveBeenCalled();
+  });
+
+  it("recognizes the Actions bot and configured logins only", () => {
+    const config = agentConfigSchema.parse({ loopPrevention: { authors: ["my-app[bot]"] } });
+    expect(isAgentAccount(agent, config)).toBe(true);
+    // GraphQL names bots without the suffix
+    expect(isAgentAccount({ login: "github-actions", type: "Bot" }, config)).toBe(true);
+    expect(isAgentAccount({ login: "my-app", type: "Bot" }, config)).toBe(true);
+    expect(isAgentAccount({ login: "my-app[bot]", type: "Bot" }, config)).toBe(true);
+    expect(isAgentAccount(dependabot, config)).toBe(false);
+    expect(isAgentAccount({ login: "github-actions", type: "User" }, config)).toBe(false);
+    expect(isAgentAccount(alice, config)).toBe(false);
+    expect(isAgentAccount(null, config)).toBe(false);
+  });
+
+  it("keeps nested details in history entries intact", () => {
+    const marker = formatCommentMarker("tests");
+    const entry = "**Run updated x**\n\nok\n\n<details><summary>usage</summary>\n\ntable\n\n</details>";
+    const body = `now\n\n${marker}\n\n<details><summary>🕓 Earlier runs (1)</summary>\n\n<!-- ai-agent:history -->\n${entry}\n\n</details>`;
+    expect(parseComment(body, marker)).toEqual({ current: "now", history: [entry] });
+  });
+
+  it("keeps the configured number of runs", async () => {
+    const marker = formatCommentMarker("tests");
+    const history = ["b", "c", "d"].map(run => `<!-- ai-agent:history -->\n${run}`).join("\n\n");
+    const octokit = createOctokit([{ id: 42, body: `a\n\n${marker}\n\n<details><summary>x</summary>\n\n${history}\n\n</details>`, updated_at: "t" }]);
+
+    await upsertComment(octokit, target, "tests", "now", 2);
+
+    const body: string = octokit.issues.updateComment.mock.calls[0][0].body;
+    expect(parseComment(body, marker).history).toEqual(["**Run updated t**\n\na", "b"]);
+  });
+
+  it("fits the history into what the current run leaves of the size limit", () => {
+    const marker = formatCommentMarker("review");
+    const history = ["a".repeat(20000), "b".repeat(20000), "c".repeat(20000)];
+
+    const small = fitComment("now", marker, history);
+    expect(parseComment(small, marker).history).toEqual(history);
+
+    const large = fitComment("x".repeat(30000), marker, history);
+    expect(large.length).toBeLessThanOrEqual(65536);
+    expect(parseComment(large, marker)).toEqual({ current: "x".repeat(30000), history: history.slice(0, 1) });
+  });
+
+  it("truncates a current run that is too large on its own", () => {
+    const marker = formatCommentMarker("review");
+    const body = fitComment("x".repeat(70000), marker, ["a"]);
+
+    expect(body).toHaveLength(65536);
+    expect(body).toMatch(/x\n\n_…truncated: this comment exceeded GitHub's size limit\._\n\n<!-- ai-agent:comment review -->$/);
+    expect(fitComment("x".repeat(70000))).toHaveLength(65536);
+  });
+});
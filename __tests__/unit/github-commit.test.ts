@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+import { BranchMovedError, commitFiles } from "@/lib/agents/github-commit";
+import { TARGET } from "@/__tests__/helpers/context";
+
+function createOctokit(headSha: string) {
+  const notFound = Object.assign(new Error("Not Found"), { status: 404 });
+  return {
+    git: {
+      getRef: jest.fn().mockResolvedValue({ data: { object: { sha: headSha } } }),
+      getCommit: jest.fn().mockResolvedValue({ data: { tree: { sha: "base-tree" } } }),
+      createBlob: jest.fn().mockImplementation(({ content }) =>
+        Promise.resolve({ data: { sha: `blob-${Buffer.from(content, "base64").toString()}` } })
+      ),
+      createTree: jest.fn().mockResolvedValue({ data: { sha: "new-tree" } }),
+      createCommit: jest.fn().mockResolvedValue({ data: { sha: "new-commit" } }),
+      updateRef: jest.fn().mockResolvedValue({ data: {} })
+    },
+    repos: {
+      getContent: jest.fn().mockImplementation(({ path }) =>
+        path === "old.test.ts" ? Promise.resolve({ data: {} }) : Promise.reject(notFound)
+      )
+    }
+  };
+}
+
+const options = {
+  owner: TARGET.owner,
+  repo: TARGET.repo,
+  branch: "feature",
+  expectedHeadSha: "head-sha",
+  message: "Add tests",
+  changes: [
+    { path: "old.test.ts" },
+    { path: "missing.test.ts" },
+    { path: "new.test.ts", content: "a" },
+    { path: "other.test.ts", content: "b" }
+  ]
+};
+
+describe("commitFiles", () => {
+  it("commits all changes in one tree and fast-forwards the branch", async () => {
+    const octokit = createOctokit("head-sha");
+    await expect(commitFiles(octokit, options)).resolves.toBe("new-commit");
+
+    expect(octokit.git.createTree).toHaveBeenCalledTimes(1);
+    expect(octokit.git.createTree.mock.calls[0][0]).toMatchObject({
+      base_tree: "base-tree",
+      tree: [
+        { path: "old.test.ts", sha: null },
+        { path: "new.test.ts", sha: "blob-a" },
+        { path: "other.test.ts", sha: "blob-b" }
+      ]
+    });
+    expect(octokit.git.createCommit).toHaveBeenCalledWith(
+      expect.objectContaining({ parents: ["head-sha"], tree: "new-tree" })
+    );
+    expect(octokit.git.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "heads/feature", sha: "new-commit", force: false })
+    );
+  });
+
+  it("refuses to commit when the branch moved", async () => {
+    const octokit = createOctokit("someone-elses-sha");
+    await expect(commitFiles(octokit, options)).rejects.toBeInstanceOf(BranchMovedError);
+    expect(octokit.git.createCommit).not.toHaveBeenCalled();
+  });
+
+  it("reports a push between the check and the ref update as a moved branch", async () => {
+    const octokit = createOctokit("head-sha");
+    octokit.git.updateRef.mockRejectedValue(Object.assign(new Error("Not a fast forward"), { status: 422 }));
+    await expect(commitFiles(octokit, options)).rejects.toThrow('The branch "feature" moved');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { collectRelatedFiles, extractSignatures } from "@/lib/agents/import-graph";
+import { changedFile, createContext } from "@/__tests__/helpers/context";
+
+describe("import graph", () => {
+  let cwd: string;
+  const write = (filename: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(cwd, filename)), { recursive: true });
+    fs.writeFileSync(path.join(cwd, filename), content);
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "import-graph-"));
+    write(
+      "tsconfig.json",
+      `/* a comment */ { "compilerOptions": { "jsx": "preserve", "moduleResolution": "bundler", "module": "esnext", "paths": { "@/*": ["./*"] } }, "include": ["**/*.ts", "**/*.tsx"] }`
+    );
+    write("lib/utils.ts", "export function cn(...classes: string[]) {\n  return classes.join(' ')\n}\n");
+    write("types/index.ts", "export interface User { name: string }\n");
+    write("components/ui/button.tsx", "import { cn } from '@/lib/utils'\nexport const Button = () => <button className={cn('a')} />\n");
+    write("app/page.tsx", "import { Button } from '@/components/ui/button'\nimport React from 'react'\nexport default function Page() { return <Button /> }\n");
+    write("app/unrelated.ts", "export const x = 1\n");
+  });
+
+  afterEach(() => fs.rmSync(cwd, { recursive: true, force: true }));
+
+  it("adds the changed files' imports (through the @/ alias) and the files importing them", () => {
+    const related = collectRelatedFiles(createContext({ changedFiles: [changedFile("components/ui/button.tsx")] }), cwd);
+    expect(related.map(f => [f.filename, f.relation, f.signaturesOnly])).toEqual([
+      ["lib/utils.ts", "dependency", false],
+      ["app/page.tsx", "dependent", false]
+    ]);
+  });
+
+  it("uses signatures for large files and stays within the budget", () => {
+    write("lib/utils.ts", `export function cn(...classes: string[]): string {\n${"  // padding\n".repeat(100)}  return ""\n}\n`);
+    const related = collectRelatedFiles(
+      createContext({ changedFiles: [changedFile("components/ui/button.tsx")], config: { importGraph: { fullContentTokens: 50, maxTokens: 15 } } }),
+      cwd
+    );
+    expect(related).toEqual([
+      { filename: "lib/utils.ts", relation: "dependency", content: "export function cn(...classes: string[]): string", signaturesOnly: true }
+    ]);
+  });
+
+  it("leaves out excluded files and dependents when turned off", () => {
+    const related = collectRelatedFiles(
+      createContext({ changedFiles: [changedFile("components/ui/button.tsx")], config: { excludePatterns: ["lib/**"], importGraph: { dependents: false } } }),
+      cwd
+    );
+    expect(related).toEqual([]);
+  });
+
+  it("extracts exported signatures", () => {
+    const source = `import x from "y"
+export interface Props { a: string }
+export type Id = string
+export async function load(id: Id): Promise<Props> { return { a: id } }
+export const format = (p: Props): string => p.a
+export class Store {
+  private cache = new Map()
+  get(id: Id): Props | undefined { return this.cache.get(id) }
+}
+function internal() {}
+`;
+    expect(extractSignatures("a.ts", source)).toBe(
+      [
+        "export interface Props { a: string }",
+        "export type Id = string",
+        "export async function load(id: Id): Promise<Props>",
+        "export const format = (p: Props): string => ...",
+        "export class Store {\n  get(id: Id): Props | undefined\n}"
+      ].join("\n")
+    );
+  });
+});
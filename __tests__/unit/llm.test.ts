@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { getLLMCallSettings, getLLMSettings } from "@/lib/agents/llm";
+
+describe("LLM settings", () => {
+  const originalEnv = process.env;
+
+  const setEnv = (env: Record<string, string>) => {
+    // Start from an environment without any LLM settings of the machine running the tests
+    process.env = { ...originalEnv };
+    for (const name of Object.keys(process.env).filter(n => n.startsWith("LLM_"))) delete process.env[name];
+    Object.assign(process.env, env);
+  };
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("defaults to OpenAI without any settings", () => {
+    setEnv({});
+    expect(getLLMSettings("fix")).toEqual({ provider: "openai" });
+  });
+
+  it("prefers step settings over global ones", () => {
+    setEnv({
+      LLM_PROVIDER: "ollama",
+      LLM_MODEL: "llama3",
+      LLM_TEMPERATURE: "0.2",
+      LLM_MAX_TOKENS: "1000",
+      LLM_FIX_MODEL: "qwen",
+      LLM_FIX_TEMPERATURE: "0.7"
+    });
+
+    expect(getLLMSettings("fix")).toEqual({ provider: "ollama", model: "qwen", temperature: 0.7, maxTokens: 1000 });
+    expect(getLLMSettings("review")).toEqual({ provider: "ollama", model: "llama3", temperature: 0.2, maxTokens: 1000 });
+    expect(getLLMSettings()).toEqual(getLLMSettings("review"));
+  });
+
+  it("ignores empty variables", () => {
+    setEnv({ LLM_MODEL: "llama3", LLM_FIX_MODEL: "", LLM_TEMPERATURE: "" });
+    expect(getLLMSettings("fix")).toEqual({ provider: "openai", model: "llama3" });
+  });
+
+  it("names every invalid variable instead of passing NaN to the model", () => {
+    setEnv({ LLM_FIX_TEMPERATURE: "abc", LLM_MAX_TOKENS: "1.5" });
+
+    expect(() => getLLMSettings("fix")).toThrow(
+      "Invalid LLM settings:\n- `LLM_FIX_TEMPERATURE`: Expected number, received nan\n- `LLM_MAX_TOKENS`: Expected integer, received float"
+    );
+    expect(() => getLLMSettings("review")).toThrow("`LLM_MAX_TOKENS`");
+    expect(() => getLLMCallSettings("fix")).toThrow("`LLM_FIX_TEMPERATURE`");
+  });
+
+  it("rejects negative temperatures and token limits", () => {
+    setEnv({ LLM_TEMPERATURE: "-1", LLM_MAX_TOKENS: "0" });
+    expect(() => getLLMSettings()).toThrow(
+      "- `LLM_TEMPERATURE`: Number must be greater than or equal to 0\n- `LLM_MAX_TOKENS`: Number must be greater than 0"
+    );
+  });
+});
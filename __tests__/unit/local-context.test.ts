@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { agentConfigSchema } from "@/lib/agents/agent-config";
+import { buildLocalPRContext, buildLocalTestContext, parseCliArgs } from "@/lib/agents/local-context";
+import { createLocalComment, flushLocalReport, updateLocalComment } from "@/lib/agents/local-report";
+
+describe("local mode", () => {
+  let repoDir: string;
+
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: repoDir, encoding: "utf8" }).trim();
+  const write = (filename: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, filename)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, filename), content);
+  };
+  const commit = (message: string) => {
+    git("add", "-A");
+    git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-qm", message);
+  };
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-agent-local-"));
+    git("init", "-q", "-b", "main");
+    write("app/page.tsx", "export const a = 1\n");
+    write("app/old.ts", "export const old = true\n");
+    write("__tests__/unit/page.test.tsx", "test('a', () => {})\n");
+    commit("Base");
+    git("checkout", "-q", "-b", "feature");
+    write("app/page.tsx", "export const a = 2\n");
+    write("app/new.ts", "export const b = 1\n");
+    write("package-lock.json", "{}\n");
+    fs.rmSync(path.join(repoDir, "app/old.ts"));
+    commit("Change page");
+    write("app/new.ts", "export const b = 2\n");
+    commit("Follow-up\n\nWith a body");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("builds the context from a git range like a PR", () => {
+    const context = buildLocalPRContext("main..feature", { outputPath: "out.md" }, agentConfigSchema.parse({}), repoDir);
+
+    expect(context).toMatchObject({
+      owner: "local",
+      repo: path.basename(repoDir),
+      headRef: "feature",
+      baseRef: "main",
+      baseSha: git("rev-parse", "main"),
+      headSha: git("rev-parse", "feature"),
+      commitMessages: ["Change page", "Follow-up\n\nWith a body"],
+      local: { outputPath: "out.md" }
+    });
+    const byName = Object.fromEntries(context.changedFiles.map(f => [f.filename, f]));
+    expect(Object.keys(byName).sort()).toEqual(["app/new.ts", "app/old.ts", "app/page.tsx", "package-lock.json"]);
+    expect(byName["app/page.tsx"]).toMatchObject({
+      status: "modified",
+      additions: 1,
+      deletions: 1,
+      patch: "@@ -1 +1 @@\n-export const a = 1\n+export const a = 2",
+      content: "export const a = 2\n",
+      baseContent: "export const a = 1\n",
+      excluded: false
+    });
+    expect(byName["app/new.ts"]).toMatchObject({ status: "added", content: "export const b = 2\n", baseContent: undefined });
+    expect(byName["app/old.ts"]).toMatchObject({ status: "removed", excluded: true });
+    // Lockfiles are excluded by default
+    expect(byName["package-lock.json"]).toMatchObject({ status: "added", excluded: true, content: undefined });
+  });
+
+  it("reads existing tests from the working tree", () => {
+    const context = buildLocalPRContext("main..HEAD", {}, agentConfigSchema.parse({}), repoDir);
+    expect(buildLocalTestContext(context, repoDir).existingTestFiles).toEqual([
+      { filename: "__tests__/unit/page.test.tsx", content: "test('a', () => {})\n" }
+    ]);
+  });
+
+  it("rejects ranges without a base", () => {
+    expect(() => buildLocalPRContext("..HEAD", {}, agentConfigSchema.parse({}), repoDir)).toThrow('Invalid git range "..HEAD"');
+  });
+
+  it("writes the comments to the output file as they change", () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const outputPath = path.join(repoDir, "reports/ai-review.md");
+    const context = buildLocalPRContext("main..HEAD", { outputPath }, agentConfigSchema.parse({}), repoDir);
+
+    const review = createLocalComment(context, "Reviewing...");
+    createLocalComment(context, "Tests");
+    updateLocalComment(context, review, "Review done");
+    expect(fs.readFileSync(outputPath, "utf8")).toMatch(/Review done\n\n---\n\nTests\n$/);
+
+    flushLocalReport(context);
+    expect(console.log).toHaveBeenCalledWith(`AI Agent report written to ${outputPath}`);
+  });
+});
+
+describe("CLI arguments", () => {
+  it("runs against GitHub without --local", () => {
+    expect(parseCliArgs([])).toEqual({});
+    expect(parseCliArgs(["--output", "a.md"])).toEqual({});
+  });
+
+  it("reads the range and output file of a local run", () => {
+    expect(parseCliArgs(["--local"])).toEqual({ local: { range: "main..HEAD", outputPath: undefined } });
+    expect(parseCliArgs(["--local", "develop..HEAD", "--output", "ai-review.md"])).toEqual({
+      local: { range: "develop..HEAD", outputPath: "ai-review.md" }
+    });
+    expect(parseCliArgs(["--output", "ai-review.md", "--local"])).toEqual({
+      local: { range: "main..HEAD", outputPath: "ai-review.md" }
+    });
+  });
+
+  it("requires a file path after --output", () => {
+    expect(() => parseCliArgs(["--local", "--output"])).toThrow('"--output" needs a file path');
+    expect(() => parseCliArgs(["--local", "--output", "--other"])).toThrow('"--output" needs a file path');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { agentConfigSchema } from "@/lib/agents/agent-config";
+import { decideRun, formatCommitMarker } from "@/lib/agents/loop-guard";
+import { TARGET } from "@/__tests__/helpers/context";
+
+type Account = { login: string; type: "User" | "Bot" };
+
+const agent: Account = { login: "github-actions[bot]", type: "Bot" };
+const alice: Account = { login: "alice", type: "User" };
+
+function createOctokit(
+  commit: { message: string; author?: Account; committer?: Account },
+  comments: { body: string; user?: Account }[] = []
+) {
+  return {
+    repos: {
+      getCommit: jest.fn().mockResolvedValue({
+        data: { commit: { message: commit.message }, author: commit.author ?? null, committer: commit.committer ?? null }
+      })
+    },
+    issues: { listComments: jest.fn() },
+    paginate: jest.fn().mockResolvedValue(comments.map((c, i) => ({ id: i + 1, user: agent, ...c })))
+  };
+}
+
+const options = {
+  ...TARGET,
+  headSha: "abc1234def5678",
+  action: "synchronize",
+  config: agentConfigSchema.parse({ loopPrevention: { authors: ["my-app[bot]", "release-user"] } })
+};
+
+describe("loop guard", () => {
+  beforeEach(() => jest.spyOn(console, "log").mockImplementation(() => {}));
+  afterEach(() => jest.restoreAllMocks());
+
+  it("always runs for events that aren't pushes", async () => {
+    const octokit = createOctokit({ message: "Add tests\n\nGenerated-by: ai-agent", author: agent });
+    await expect(decideRun(octokit, { ...options, action: "opened" })).resolves.toMatchObject({ skip: false });
+    expect(octokit.repos.getCommit).not.toHaveBeenCalled();
+  });
+
+  it("skips commits with the agent trailer from the agent's account", async () => {
+    const octokit = createOctokit({ message: "Add tests\n\nGenerated-by: ai-agent", author: agent, committer: agent });
+    await expect(decideRun(octokit, options)).resolves.toMatchObject({ skip: true });
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("Loop guard: skipping"));
+
+    // Commits pushed with a PAT belong to a configured user
+    const patUser = createOctokit({ message: "Add tests\n\nGenerated-by: ai-agent", committer: { login: "release-user", type: "User" } });
+    await expect(decideRun(patUser, options)).resolves.toMatchObject({ skip: true });
+  });
+
+  it("runs for commits that only copy the agent trailer", async () => {
+    const octokit = createOctokit({ message: "Sneaky\n\nGenerated-by: ai-agent", author: alice, committer: alice });
+    await expect(decideRun(octokit, options)).resolves.toMatchObject({
+      skip: false,
+      reason: expect.stringContaining("doesn't come from the agent's account")
+    });
+  });
+
+  it("runs for commits with the agent trailer from another bot", async () => {
+    const dependabot: Account = { login: "dependabot[bot]", type: "Bot" };
+    const octokit = createOctokit({ message: "Bump lodash\n\nGenerated-by: ai-agent", author: dependabot, committer: dependabot });
+    await expect(decideRun(octokit, options)).resolves.toMatchObject({ skip: false });
+  });
+
+  it("skips commits by a configured agent identity", async () => {
+    const octokit = createOctokit({ message: "Add tests", author: { login: "my-app[bot]", type: "Bot" } });
+    await expect(decideRun(octokit, options)).resolves.toMatchObject({ skip: true });
+  });
+
+  it("skips commits recorded in an agent comment", async () => {
+    const octokit = createOctokit({ message: "Squashed", author: alice }, [
+      { body: "hello", user: alice },
+      { body: `### AI Test Generation\n${formatCommitMarker("abc1234def5678")}` }
+    ]);
+    await expect(decideRun(octokit, options)).resolves.toMatchObject({
+      skip: true,
+      reason: expect.stringContaining("comment 2")
+    });
+  });
+
+  it("ignores commit markers in comments by anyone else", async () => {
+    const octokit = createOctokit({ message: "Sneaky", author: alice }, [
+      { body: `Copied: ${formatCommitMarker("abc1234def5678")}`, user: alice }
+    ]);
+    await expect(decideRun(octokit, options)).resolves.toMatchObject({ skip: false });
+  });
+
+  it("runs for commits from anyone else", async () => {
+    const octokit = createOctokit({ message: "Fix bug", author: alice, committer: alice });
+    await expect(decideRun(octokit, options)).resolves.toMatchObject({ skip: false });
+  });
+});
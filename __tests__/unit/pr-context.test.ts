@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import { agentConfigSchema } from "@/lib/agents/agent-config";
+import { formatFileForReview } from "@/lib/agents/code-review";
+import { buildPRContext } from "@/lib/agents/pr-context";
+
+const encode = (text: string) => ({ data: { content: Buffer.from(text).toString("base64") } });
+
+function createOctokit(files: any[], changedFiles = files.length, headRepo: string | null = "acme/web") {
+  const contents: Record<string, string> = {
+    "app/new-name.ts@head123": "export const a = 2\n",
+    "app/old-name.ts@base123": "export const a = 1\n",
+    "app/page.tsx@head123": "after\n",
+    "app/page.tsx@base123": "before\n",
+    "app/added.ts@head123": "added\n"
+  };
+  return {
+    pulls: {
+      get: jest.fn().mockResolvedValue({
+        data: {
+          title: "Big PR",
+          head: { ref: "feature", sha: "head123", repo: headRepo && { full_name: headRepo } },
+          base: { ref: "main", sha: "base123", repo: { full_name: "acme/web" } },
+          labels: [],
+          changed_files: changedFiles
+        }
+      }),
+      listFiles: jest.fn(),
+      listCommits: jest.fn()
+    },
+    repos: {
+      getContent: jest.fn().mockImplementation(async ({ path, ref }: any) => {
+        const content = contents[`${path}@${ref}`];
+        if (content === undefined) throw Object.assign(new Error("Not Found"), { status: 404 });
+        return encode(content);
+      })
+    },
+    paginate: jest.fn()
+  };
+}
+
+describe("buildPRContext", () => {
+  const files = [
+    { filename: "app/new-name.ts", previous_filename: "app/old-name.ts", status: "renamed", patch: "@@ -1 +1 @@\n-export const a = 1\n+export const a = 2" },
+    { filename: "app/page.tsx", status: "modified", patch: "@@ -1 +1 @@\n-before\n+after" },
+    { filename: "app/added.ts", status: "added", patch: "@@ -0,0 +1 @@\n+added" }
+  ];
+
+  it("fetches every page, tracks renames and records the base content of changed files", async () => {
+    const octokit = createOctokit(files);
+    octokit.paginate.mockImplementation(async (method: any) =>
+      method === octokit.pulls.listFiles ? files : [{ commit: { message: "Commit 31" } }]
+    );
+
+    const context = await buildPRContext(octokit as any, "acme", "web", 7);
+
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.pulls.listFiles, expect.objectContaining({ per_page: 100 }));
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.pulls.listCommits, expect.objectContaining({ per_page: 100 }));
+    expect(context.commitMessages).toEqual(["Commit 31"]);
+    expect(context.changedFiles).toEqual([
+      expect.objectContaining({
+        filename: "app/new-name.ts",
+        previousFilename: "app/old-name.ts",
+        content: "export const a = 2\n",
+        baseContent: "export const a = 1\n"
+      }),
+      expect.objectContaining({ filename: "app/page.tsx", content: "after\n", baseContent: "before\n" }),
+      expect.objectContaining({ filename: "app/added.ts", content: "added\n", baseContent: undefined })
+    ]);
+    expect(context.filesTruncated).toBeUndefined();
+    expect(context.fork).toBe(false);
+    expect(formatFileForReview(context.changedFiles[0], 1000)).toContain(
+      "File: app/new-name.ts (renamed from app/old-name.ts)\nPatch:"
+    );
+    expect(formatFileForReview(context.changedFiles[1], 1000)).toContain("Content before this PR:\nbefore");
+  });
+
+  it("flags PRs with more files than GitHub lists", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const octokit = createOctokit(files, 3500);
+    octokit.paginate.mockImplementation(async (method: any) => (method === octokit.pulls.listFiles ? files : []));
+
+    const context = await buildPRContext(octokit as any, "acme", "web", 7);
+    expect(context.filesTruncated).toEqual({ listed: 3, total: 3500 });
+    jest.restoreAllMocks();
+  });
+
+  it("reads a fork's files at its head commit and flags the PR as a fork", async () => {
+    for (const headRepo of ["alice/web", null]) {
+      const octokit = createOctokit(files, files.length, headRepo);
+      octokit.paginate.mockImplementation(async (method: any) => (method === octokit.pulls.listFiles ? files : []));
+
+      const context = await buildPRContext(octokit as any, "acme", "web", 7);
+      expect(context.fork).toBe(true);
+      expect(context.changedFiles[2]).toEqual(expect.objectContaining({ filename: "app/added.ts", content: "added\n" }));
+    }
+  });
+
+  it("fetches contents only for files that can enter a prompt", async () => {
+    const more = [
+      ...files,
+      { filename: "app/gone.ts", status: "removed", patch: "@@ -1 +0,0 @@\n-gone" },
+      { filename: "package-lock.json", status: "modified", patch: "@@ -1 +1 @@\n-a\n+b" },
+      { filename: "app/huge.ts", status: "modified", patch: `@@ -1 +1 @@\n+${"x".repeat(400)}` }
+    ];
+    const octokit = createOctokit(more);
+    octokit.paginate.mockImplementation(async (method: any) => (method === octokit.pulls.listFiles ? more : []));
+
+    const context = await buildPRContext(
+      octokit as any,
+      "acme",
+      "web",
+      7,
+      agentConfigSchema.parse({ excludePatterns: ["package-lock.json"], reviewBatchTokens: 100 })
+    );
+
+    const fetched = octokit.repos.getContent.mock.calls.map(([{ path }]: any) => path);
+    expect(fetched.sort()).toEqual(["app/added.ts", "app/new-name.ts", "app/old-name.ts", "app/page.tsx", "app/page.tsx"]);
+    expect(context.changedFiles.slice(3)).toEqual([
+      expect.objectContaining({ filename: "app/gone.ts", excluded: true }),
+      expect.objectContaining({ filename: "package-lock.json", excluded: true }),
+      expect.objectContaining({ filename: "app/huge.ts", excluded: false, content: undefined })
+    ]);
+    expect(formatFileForReview(context.changedFiles[5], 1000)).toContain("Content: [NOT FETCHED]");
+    expect(context.contentsSkipped).toBeUndefined();
+  });
+
+  it("reviews the rest from their patches once GitHub's rate limit is hit", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const octokit = createOctokit(files);
+    octokit.paginate.mockImplementation(async (method: any) => (method === octokit.pulls.listFiles ? files : []));
+    octokit.repos.getContent.mockRejectedValue(
+      Object.assign(new Error("API rate limit exceeded"), { status: 403, response: { headers: { "x-ratelimit-remaining": "0" } } })
+    );
+
+    const context = await buildPRContext(octokit as any, "acme", "web", 7);
+    expect(context.contentsSkipped).toEqual({ count: 3, rateLimited: true });
+    expect(context.changedFiles.every(f => f.content === undefined && !f.excluded)).toBe(true);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("rate limit"));
+    jest.restoreAllMocks();
+  });
+});
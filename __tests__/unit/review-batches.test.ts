@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { batchChangedFiles, formatFileForReview, handleReviewAgent } from "@/lib/agents/code-review";
+import { formatReviewedMarker } from "@/lib/agents/incremental-review";
+import { changedFile, createContext } from "@/__tests__/helpers/context";
+
+const file = (filename: string, size: number) => ({
+  filename,
+  patch: "@@ -1 +1 @@\n+x",
+  status: "modified",
+  additions: 1,
+  deletions: 0,
+  content: "x".repeat(size)
+});
+
+describe("review batching", () => {
+  it("keeps small PRs in a single batch", () => {
+    const batches = batchChangedFiles([file("a.ts", 100), file("b.ts", 100)], 1000);
+    expect(batches.map(b => b.files)).toEqual([["a.ts", "b.ts"]]);
+  });
+
+  it("splits files across batches in PR order without exceeding the budget", () => {
+    const batches = batchChangedFiles(
+      [file("a.ts", 2000), file("b.ts", 2000), file("c.ts", 2000)],
+      1200
+    );
+    expect(batches.map(b => b.files)).toEqual([["a.ts", "b.ts"], ["c.ts"]]);
+    for (const b of batches) {
+      expect(Math.ceil(b.prompt.length / 4)).toBeLessThanOrEqual(1200);
+    }
+  });
+
+  it("drops the content of a file that doesn't fit on its own", () => {
+    const block = formatFileForReview(file("big.ts", 10000), 100);
+    expect(block).toContain("Content: [OMITTED, FILE TOO LARGE]");
+    expect(block).toContain("+x");
+  });
+});
+
+describe("reviewed marker", () => {
+  const originalEnv = process.env;
+  let responsesDir: string;
+
+  beforeEach(() => {
+    responsesDir = fs.mkdtempSync(path.join(os.tmpdir(), "review-marker-"));
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(responsesDir, { recursive: true, force: true });
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  async function review(reviewResponse?: unknown) {
+    const responses = path.join(responsesDir, "responses.json");
+    fs.writeFileSync(responses, JSON.stringify(reviewResponse === undefined ? {} : { review: reviewResponse }));
+    process.env = { ...originalEnv, LLM_PROVIDER: "fake", LLM_FAKE_RESPONSES: responses };
+    const octokit = { issues: { updateComment: jest.fn().mockResolvedValue({}) } };
+    const context = createContext({ headSha: "bbbbbbb2222222", changedFiles: [changedFile("app/a.ts")] });
+    const { reviewBody } = await handleReviewAgent(octokit, context, 1, "AI Review");
+    expect(octokit.issues.updateComment).toHaveBeenCalledTimes(1);
+    return reviewBody;
+  }
+
+  it("records the reviewed head once every pass succeeded", async () => {
+    expect(await review()).toContain(formatReviewedMarker("bbbbbbb2222222"));
+  });
+
+  it("doesn't record the reviewed head when a batch failed", async () => {
+    const body = await review({ summary: 42 });
+    expect(body).toContain("Review parse error");
+    expect(body).not.toContain(formatReviewedMarker("bbbbbbb2222222"));
+  });
+});
@@ -0,0 +1,35 @@
+import { findDiffPosition, mapPatchPositions } from "@/lib/agents/review-comments";
+
+const patch = [
+  "@@ -1,3 +1,4 @@",
+  " import a from \"a\";",
+  "-const x = 1;",
+  "+const x = 2;",
+  "+const y = 3;",
+  " export default x;",
+  "@@ -10,2 +11,2 @@ function f() {",
+  "-  return 1;",
+  "+  return 2;",
+  " }"
+].join("\n");
+
+describe("review-comments diff positions", () => {
+  it("counts positions from the line after the first hunk header", () => {
+    expect(findDiffPosition(patch, 1, "RIGHT")).toBe(1);
+    expect(findDiffPosition(patch, 2, "LEFT")).toBe(2);
+    expect(findDiffPosition(patch, 2, "RIGHT")).toBe(3);
+    expect(findDiffPosition(patch, 3, "RIGHT")).toBe(4);
+    expect(findDiffPosition(patch, 4, "RIGHT")).toBe(5);
+  });
+
+  it("counts later hunk headers as a position", () => {
+    expect(findDiffPosition(patch, 10, "LEFT")).toBe(7);
+    expect(findDiffPosition(patch, 11, "RIGHT")).toBe(8);
+    expect(findDiffPosition(patch, 12, "RIGHT")).toBe(9);
+  });
+
+  it("returns undefined for lines outside the diff", () => {
+    expect(findDiffPosition(patch, 7, "RIGHT")).toBeUndefined();
+    expect(mapPatchPositions("").size).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import { agentConfigSchema } from "@/lib/agents/agent-config";
+import {
+  checkBudget,
+  formatCostSummary,
+  recordLLMCall,
+  resetLedger,
+  summarizeLedger
+} from "@/lib/agents/run-ledger";
+
+const call = (step: string, model: string, promptTokens: number, completionTokens: number) =>
+  recordLLMCall({ step, provider: "test", model, promptTokens, completionTokens, latencyMs: 500 });
+
+describe("run ledger", () => {
+  beforeEach(() => resetLedger());
+
+  it("totals tokens and cost per step and model", () => {
+    const config = agentConfigSchema.parse({
+      pricing: { "my-model": { input: 2, output: 10 } }
+    });
+    call("review", "my-model", 1_000_000, 100_000);
+    call("fix", "my-model", 500_000, 0);
+    call("fix", "my-model", 500_000, 0);
+
+    const { steps, total } = summarizeLedger(config);
+    expect(steps.map(s => [s.step, s.calls, s.costUsd])).toEqual([
+      ["review", 1, 3],
+      ["fix", 2, 2]
+    ]);
+    expect(total.costUsd).toBe(5);
+    expect(formatCostSummary(config)).toContain("<details><summary>💰 LLM usage: 2,100,000 tokens, $5.0000");
+  });
+
+  it("reports an unknown cost for models without a price", () => {
+    const config = agentConfigSchema.parse({});
+    call("review", "o3-mini", 1000, 1000);
+    call("review", "unpriced-model", 1000, 1000);
+    expect(summarizeLedger(config).total.costUsd).toBeUndefined();
+  });
+
+  it("flags an exceeded budget", () => {
+    const config = agentConfigSchema.parse({
+      pricing: { "my-model": { input: 1, output: 1 } },
+      budget: { maxCostUsd: 0.5, maxTokens: 2_000_000 }
+    });
+    call("review", "my-model", 400_000, 0);
+    expect(checkBudget(config)).toBeUndefined();
+    call("fix", "my-model", 200_000, 0);
+    expect(checkBudget(config)).toBe("Cost budget exceeded: $0.6000 of $0.5000 spent.");
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { agentConfigSchema } from "@/lib/agents/agent-config";
+import { PullRequestContext } from "@/lib/agents/pr-context";
+import {
+  changedLineNumbers,
+  CoverageReport,
+  formatCoverageTable,
+  formatUncoveredLines,
+  measureCoverage,
+  uncoveredPercent
+} from "@/lib/agents/test-coverage";
+
+const baseMath = `exports.add = (a, b) => {\n  return a + b\n}\n`;
+const headMath = `${baseMath}exports.sub = (a, b) => {\n  return a - b\n}\n`;
+const greeting = `// Not tested yet\nexports.hello = () => {\n  return "hi"\n}\n`;
+
+describe("test coverage", () => {
+  let repoDir: string;
+
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: repoDir, encoding: "utf8" }).trim();
+  const write = (filename: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, filename)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, filename), content);
+  };
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-agent-coverage-"));
+    fs.symlinkSync(path.join(__dirname, "../../node_modules"), path.join(repoDir, "node_modules"), "dir");
+    write("package.json", JSON.stringify({ scripts: { test: "jest" }, jest: { testEnvironment: "node", coverageProvider: "v8" } }));
+    write("app/math.js", baseMath);
+    write("__tests__/math.test.js", `const { add } = require("../app/math")\ntest("adds", () => expect(add(1, 2)).toBe(3))\n`);
+    git("init", "-q");
+    git("add", "package.json", "app", "__tests__");
+    git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-qm", "base");
+    write("app/math.js", headMath);
+    write("app/greeting.js", greeting);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("finds the added lines of a patch", () => {
+    expect(changedLineNumbers("@@ -1,3 +1,4 @@\n a\n-b\n+c\n+d\n e\n\\ No newline at end of file\n@@ -10 +11,2 @@\n+f")).toEqual([
+      2, 3, 11
+    ]);
+  });
+
+  it.each([true, false])("measures the coverage of the changed lines on the base and the head (sandbox: %s)", async enabled => {
+    const context: PullRequestContext = {
+      owner: "local",
+      repo: "web",
+      pullNumber: 0,
+      headRef: "feature",
+      headSha: "HEAD",
+      baseRef: "main",
+      baseSha: git("rev-parse", "HEAD"),
+      title: "Add sub and greeting",
+      labels: [],
+      changedFiles: [
+        {
+          filename: "app/math.js",
+          status: "modified",
+          additions: 3,
+          deletions: 0,
+          patch: "@@ -1,3 +1,6 @@\n exports.add = (a, b) => {\n   return a + b\n }\n+exports.sub = (a, b) => {\n+  return a - b\n+}"
+        },
+        {
+          filename: "app/greeting.js",
+          status: "added",
+          additions: 4,
+          deletions: 0,
+          patch: "@@ -0,0 +1,4 @@\n+// Not tested yet\n+exports.hello = () => {\n+  return \"hi\"\n+}"
+        }
+      ],
+      commitMessages: [],
+      config: agentConfigSchema.parse({ sandbox: { enabled } }),
+      local: {}
+    };
+
+    const report = await measureCoverage(undefined, context, repoDir);
+
+    const [math, greetingFile] = report!.files;
+    expect(math.baseCoverage).toBe(100);
+    expect(math.headCoverage).toBeLessThan(100);
+    expect(math.uncoveredLines).toContain(5);
+    expect(math.uncoveredLines).not.toContain(4);
+    // No test loads the new file, so none of its lines are covered
+    expect(greetingFile).toEqual({
+      filename: "app/greeting.js",
+      baseCoverage: undefined,
+      headCoverage: 0,
+      changedLines: [1, 2, 3, 4],
+      uncoveredLines: [1, 2, 3, 4]
+    });
+    expect(fs.readFileSync(path.join(repoDir, "app/math.js"), "utf8")).toBe(headMath);
+  }, 120000);
+
+  it("renders the coverage delta table and the uncovered lines", () => {
+    const report: CoverageReport = {
+      files: [
+        { filename: "app/math.ts", baseCoverage: 100, headCoverage: 75, changedLines: [4, 5, 6, 9], uncoveredLines: [5, 6] },
+        { filename: "app/new.ts", headCoverage: 100, changedLines: [1, 2], uncoveredLines: [] }
+      ]
+    };
+
+    expect(uncoveredPercent(report)).toBeCloseTo(33.3, 1);
+    expect(formatCoverageTable(report)).toBe(
+      "**Coverage**: 4 of 6 changed line(s) covered (66.7%)\n\n" +
+        "| File | Base | Head | Δ | Changed lines covered | Uncovered changed lines |\n|---|---|---|---|---|---|\n" +
+        "| app/math.ts | 100.0% | 75.0% | -25.0 | 2/4 | 5-6 |\n" +
+        "| app/new.ts | – | 100.0% | new | 2/2 | – |\n"
+    );
+    expect(formatUncoveredLines(report)).toBe("- `app/math.ts`: 5-6");
+    expect(formatCoverageTable({ files: [] })).toBe("**Coverage**: No changed code lines in files that get tests.");
+  });
+});
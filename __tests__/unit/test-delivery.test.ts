@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import { buildSuggestions, buildTestPatch, resolveDeliveryMode } from "@/lib/agents/test-delivery";
+import { applyTestProposals } from "@/lib/agents/test-proposals";
+import { changedFile, ContextOverrides, createTestContext } from "@/__tests__/helpers/context";
+
+const existing = ["import a from 'a';", "", "it('works', () => {", "  expect(a).toBe(1);", "});", ""].join("\n");
+
+function createDeliveryContext(overrides: ContextOverrides = {}) {
+  return createTestContext({
+    headSha: "head-sha",
+    title: "Change a",
+    changedFiles: [
+      changedFile("__tests__/unit/a.test.ts", {
+        // The whole file was added in this PR, so every line can take a suggestion
+        patch: "@@ -0,0 +1,5 @@\n" + existing.split("\n").slice(0, 5).map(l => `+${l}`).join("\n"),
+        status: "added",
+        additions: 5
+      })
+    ],
+    existingTestFiles: [{ filename: "__tests__/unit/a.test.ts", content: existing }],
+    ...overrides
+  });
+}
+
+const update = (filename: string, testContent: string) => ({
+  filename,
+  testContent,
+  actions: { action: "update" as const, oldFilename: "" }
+});
+
+describe("test delivery", () => {
+  it("picks the mode from an ai-agent label before the config", () => {
+    expect(resolveDeliveryMode(createDeliveryContext())).toBe("commit");
+    expect(resolveDeliveryMode(createDeliveryContext({ labels: ["bug", "ai-agent:patch"] }))).toBe("patch");
+    expect(resolveDeliveryMode(createDeliveryContext({ labels: ["ai-agent:nonsense"] }))).toBe("commit");
+  });
+
+  it("turns changes to test files in the diff into suggestions", () => {
+    const proposal = update("__tests__/unit/a.test.ts", existing.replace("toBe(1)", "toBe(2)"));
+    const { comments, unsuggestable } = buildSuggestions(createDeliveryContext(), [proposal]);
+    expect(unsuggestable).toEqual([]);
+    expect(comments).toEqual([
+      {
+        path: "__tests__/unit/a.test.ts",
+        line: 4,
+        side: "RIGHT",
+        body: "```suggestion\n  expect(a).toBe(2);\n```"
+      }
+    ]);
+  });
+
+  it.each([
+    ["the top", "// top\n" + existing, 1, "// top\nimport a from 'a';"],
+    ["the middle", existing.replace("toBe(1);\n", "toBe(1);\n  expect(a).toBeDefined();\n"), 5, "  expect(a).toBeDefined();\n});"],
+    ["the end", existing + "it('b', () => {});\n", 5, "});\nit('b', () => {});"]
+  ])("anchors lines inserted at %s of a file on a line that exists", (_, testContent, line, suggestion) => {
+    const { comments, unsuggestable } = buildSuggestions(createDeliveryContext(), [
+      update("__tests__/unit/a.test.ts", testContent)
+    ]);
+    expect(unsuggestable).toEqual([]);
+    expect(comments).toEqual([
+      { path: "__tests__/unit/a.test.ts", line, side: "RIGHT", body: "```suggestion\n" + suggestion + "\n```" }
+    ]);
+  });
+
+  it("leaves new files and files outside the diff for the review body", () => {
+    const proposals = [update("__tests__/unit/b.test.ts", "new"), update("__tests__/unit/c.test.ts", "c")];
+    const context = createDeliveryContext({
+      existingTestFiles: [
+        ...createDeliveryContext().existingTestFiles,
+        { filename: "__tests__/unit/c.test.ts", content: "old c" }
+      ]
+    });
+    expect(buildSuggestions(context, proposals).unsuggestable).toEqual(proposals);
+  });
+
+  it("builds a git patch against the PR head", () => {
+    const patch = buildTestPatch(createDeliveryContext(), [
+      update("__tests__/unit/a.test.ts", existing.replace("toBe(1)", "toBe(2)")),
+      update("__tests__/unit/b.test.ts", "it('b', () => {});\n")
+    ]);
+    expect(patch).toContain("--- a/__tests__/unit/a.test.ts\n+++ b/__tests__/unit/a.test.ts");
+    expect(patch).toContain("-  expect(a).toBe(1);\n+  expect(a).toBe(2);");
+    expect(patch).toContain("--- /dev/null\n+++ b/__tests__/unit/b.test.ts");
+  });
+
+  it.each([[[]], [["ai-agent:pull-request"]]])(
+    "delivers tests for a PR from a fork as suggestions instead of pushing (labels: %j)",
+    async labels => {
+      const octokit = {
+        git: { createRef: jest.fn(), updateRef: jest.fn() },
+        pulls: { createReview: jest.fn().mockResolvedValue({}), create: jest.fn() }
+      };
+      const context = createDeliveryContext({ fork: true, labels });
+      const proposal = update("__tests__/unit/a.test.ts", existing.replace("toBe(1)", "toBe(2)"));
+
+      const note = await applyTestProposals(octokit, context, [proposal], "Add tests");
+
+      expect(octokit.git.createRef).not.toHaveBeenCalled();
+      expect(octokit.pulls.create).not.toHaveBeenCalled();
+      expect(octokit.pulls.createReview).toHaveBeenCalledWith(
+        expect.objectContaining({
+          commit_id: "head-sha",
+          comments: [expect.objectContaining({ line: 4, body: "```suggestion\n  expect(a).toBe(2);\n```" })]
+        })
+      );
+      expect(context.headSha).toBe("head-sha");
+      expect(note).toContain("This PR comes from a fork");
+      expect(note).toContain("Delivered as a review: 1 suggestion(s), 0 file(s) in the review body.");
+    }
+  );
+});
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createLocalComment } from "@/lib/agents/local-report";
+import { handleTestFix } from "@/lib/agents/test-fix";
+import { TestProposal } from "@/lib/agents/test-proposals";
+import { TestRunResult } from "@/lib/agents/test-runner";
+import { createTestContext } from "@/__tests__/helpers/context";
+
+const proposal = (filename: string, testContent: string): TestProposal => ({
+  filename,
+  testContent,
+  actions: { action: "create", oldFilename: "" }
+});
+
+function failingRun(file: string): TestRunResult {
+  return {
+    jestFailed: true,
+    output: "FAIL",
+    suites: [
+      {
+        file,
+        status: "failed",
+        durationMs: 5,
+        tests: [
+          {
+            file,
+            name: "adds",
+            fullName: "math adds",
+            status: "failed",
+            durationMs: 5,
+            failureMessage: "Expected: 3\nReceived: 4",
+            line: 3
+          }
+        ]
+      }
+    ],
+    numPassed: 0,
+    numFailed: 1,
+    numSkipped: 0
+  };
+}
+
+describe("test fix loop", () => {
+  const originalEnv = process.env;
+  const originalCwd = process.cwd();
+  let workDir: string;
+
+  const respond = (testFix: unknown) => {
+    const responses = path.join(workDir, "responses.json");
+    fs.writeFileSync(responses, JSON.stringify({ testFix }));
+    process.env = { ...originalEnv, LLM_PROVIDER: "fake", LLM_FAKE_RESPONSES: responses };
+  };
+
+  beforeEach(() => {
+    // Local mode writes the fixed tests to the working directory
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-agent-fix-"));
+    process.chdir(workDir);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("applies only edits to the failing files and merges them into the previous proposals", async () => {
+    respond({
+      summary: "Fixed the expected sum.",
+      edits: [
+        { filename: "__tests__/unit/math.test.ts", testContent: "fixed math", explanation: "Expect 4" },
+        { filename: "__tests__/unit/other.test.ts", testContent: "rewritten", explanation: "Not failing" },
+        { filename: "app/math.ts", testContent: "changed source", explanation: "Not a test" }
+      ]
+    });
+    const context = createTestContext({ local: {}, config: { staticChecks: { enabled: false } } });
+    const commentId = createLocalComment(context, "Tests");
+    const previous = [proposal("__tests__/unit/math.test.ts", "broken math"), proposal("__tests__/unit/other.test.ts", "other")];
+
+    const { proposals, testBody } = await handleTestFix(
+      undefined,
+      context,
+      1,
+      failingRun("__tests__/unit/math.test.ts"),
+      previous,
+      commentId,
+      "Tests"
+    );
+
+    expect(proposals).toEqual([
+      proposal("__tests__/unit/other.test.ts", "other"),
+      { filename: "__tests__/unit/math.test.ts", testContent: "fixed math", actions: { action: "update", oldFilename: "" } }
+    ]);
+    expect(testBody).toBe("Tests\n\nFixed the expected sum.\n- __tests__/unit/math.test.ts: Expect 4\n");
+    expect(fs.readFileSync(path.join(workDir, "__tests__/unit/math.test.ts"), "utf8")).toBe("fixed math");
+    expect(fs.existsSync(path.join(workDir, "__tests__/unit/other.test.ts"))).toBe(false);
+    expect(fs.existsSync(path.join(workDir, "app/math.ts"))).toBe(false);
+  });
+
+  it("redacts the failures and test files before they reach the prompt", async () => {
+    respond({ summary: "Nothing to fix.", edits: [] });
+    const token = `ghp_${"a1".repeat(18)}`;
+    fs.mkdirSync(path.join(workDir, "__tests__/unit"), { recursive: true });
+    fs.writeFileSync(path.join(workDir, "__tests__/unit/math.test.ts"), `const token = "${token}";\n`);
+    const context = createTestContext({ local: {}, config: { staticChecks: { enabled: false } } });
+    const run = failingRun("__tests__/unit/math.test.ts");
+    run.suites[0].tests[0].failureMessage = `Request failed with ${token}`;
+    const previous = [proposal("__tests__/unit/other.test.ts", token)];
+
+    await handleTestFix(undefined, context, 1, run, previous, createLocalComment(context, "Tests"), "Tests");
+
+    const logged = jest.mocked(console.log).mock.calls.flat().join("\n");
+    expect(logged).toContain("Test fix prompt:");
+    expect(logged).toContain(`<untrusted_data source="test-output">\nTest: math adds`);
+    expect(logged).toContain("[REDACTED:github-token:1]");
+    expect(logged).not.toContain(token);
+  });
+
+  it("keeps the previous proposals when no edit is usable", async () => {
+    respond({
+      summary: "Edited the source.",
+      edits: [{ filename: "app/math.ts", testContent: "changed source", explanation: "Not a test" }]
+    });
+    const context = createTestContext({ local: {}, config: { staticChecks: { enabled: false } } });
+    const commentId = createLocalComment(context, "Tests");
+    const previous = [proposal("__tests__/unit/math.test.ts", "broken math")];
+
+    // Without parsed failures, any test file may be edited, but nothing else
+    const { proposals, testBody } = await handleTestFix(
+      undefined,
+      context,
+      2,
+      { ...failingRun(""), suites: [] },
+      previous,
+      commentId,
+      "Tests"
+    );
+
+    expect(proposals).toEqual(previous);
+    expect(testBody).toContain("No fix proposed by AI.");
+    expect(testBody).toContain("app/math.ts");
+    expect(fs.existsSync(path.join(workDir, "app/math.ts"))).toBe(false);
+  });
+});
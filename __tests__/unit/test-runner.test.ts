@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  formatTestResultsTable,
+  getFailedTests,
+  parseJestJson,
+  parseJUnitXml,
+  readTestReport,
+  TestRunResult
+} from "@/lib/agents/test-runner";
+
+const fixturesDir = path.join(__dirname, "../fixtures/test-reports");
+
+// Reports hold absolute paths; the fixtures use {rootDir} for the repo root
+const readFixture = (name: string) =>
+  fs.readFileSync(path.join(fixturesDir, name), "utf8").split("{rootDir}").join(process.cwd());
+
+const math = "__tests__/unit/math.test.ts";
+
+describe("test reports", () => {
+  it("parses passed, failed and skipped tests from the Jest JSON report", () => {
+    const [suite] = parseJestJson(readFixture("jest-results.json"));
+
+    expect(suite).toEqual({
+      file: math,
+      status: "failed",
+      durationMs: 250,
+      failureMessage: undefined,
+      tests: [
+        { file: math, name: "adds", fullName: "math › adds", status: "passed", durationMs: 4, line: 4 },
+        {
+          file: math,
+          name: "subtracts",
+          fullName: "math › subtracts",
+          status: "failed",
+          durationMs: 7,
+          failureMessage: "Error: expect(received).toBe(expected)\n\nExpected: 1\nReceived: -1",
+          stack: `at Object.toBe (${process.cwd()}/${math}:9:22)\nat processTicksAndRejections (node:internal/process/task_queues:95:5)`,
+          line: 9
+        },
+        { file: math, name: "divides", fullName: "math › divides", status: "skipped", durationMs: 0, line: 12 }
+      ]
+    });
+  });
+
+  it("keeps the message of a suite that failed to compile", () => {
+    const [, broken] = parseJestJson(readFixture("jest-results.json"));
+
+    expect(broken).toMatchObject({ file: "__tests__/unit/broken.test.ts", status: "failed", tests: [] });
+    expect(broken.failureMessage).toBe(
+      "● Test suite failed to run\n\n    __tests__/unit/broken.test.ts:1:10 - error TS2305: Module '\"@/lib/utils\"' has no exported member 'cx'."
+    );
+  });
+
+  it("parses the JUnit report and decodes escaped XML entities", () => {
+    const [suite] = parseJUnitXml(readFixture("test-results.xml"));
+
+    expect(suite.file).toBe(math);
+    expect(suite.status).toBe("failed");
+    expect(suite.durationMs).toBe(250);
+    expect(suite.tests.map(t => [t.fullName, t.status, t.durationMs])).toEqual([
+      ["math adds & returns <sum>", "passed", 4],
+      ["math subtracts", "failed", 7],
+      ["math divides", "skipped", 0]
+    ]);
+    expect(suite.tests[1]).toMatchObject({
+      failureMessage: 'Error: expect(received).toBe(expected)\n\nExpected: "a & b"\nReceived: "a < b"',
+      line: 9
+    });
+  });
+
+  describe("reading the reports of a run", () => {
+    let dir: string;
+
+    const writeReport = (name: string, content: string) => {
+      fs.mkdirSync(path.join(dir, "reports/jest"), { recursive: true });
+      fs.writeFileSync(path.join(dir, "reports/jest", name), content);
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-agent-reports-"));
+      jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    });
+
+    it("prefers the Jest JSON report", () => {
+      writeReport("test-results.json", readFixture("jest-results.json"));
+      writeReport("test-results.xml", readFixture("test-results.xml"));
+      expect(readTestReport(dir)).toHaveLength(2);
+    });
+
+    it("falls back to the JUnit report when the JSON report is missing or invalid", () => {
+      writeReport("test-results.xml", readFixture("test-results.xml"));
+      expect(readTestReport(dir).map(s => s.tests.length)).toEqual([3]);
+
+      writeReport("test-results.json", "{ not json");
+      expect(readTestReport(dir).map(s => s.tests.length)).toEqual([3]);
+      expect(console.error).toHaveBeenCalledWith("Could not parse Jest JSON report:", expect.any(SyntaxError));
+    });
+
+    it("returns no suites without any report", () => {
+      expect(readTestReport(dir)).toEqual([]);
+    });
+  });
+});
+
+describe("test results", () => {
+  const result = (): TestRunResult => {
+    const suites = parseJestJson(readFixture("jest-results.json"));
+    return { jestFailed: true, output: "", suites, numPassed: 1, numFailed: 1, numSkipped: 1 };
+  };
+
+  it("lists failing tests and suites that failed to run", () => {
+    expect(getFailedTests(result()).map(t => [t.file, t.fullName])).toEqual([
+      [math, "math › subtracts"],
+      ["__tests__/unit/broken.test.ts", "Test suite failed to run"]
+    ]);
+  });
+
+  it("renders failures first in the results table", () => {
+    expect(formatTestResultsTable(result())).toBe(
+      "**Test Results**: 1 passed, 1 failed, 1 skipped\n\n" +
+        "| Status | Test | File | Duration |\n|---|---|---|---|\n" +
+        `| ❌ | math › subtracts | ${math}:9 | 7ms |\n` +
+        "| ❌ | Test suite failed to run | __tests__/unit/broken.test.ts | 100ms |\n" +
+        `| ✅ | math › adds | ${math}:4 | 4ms |\n` +
+        `| ⏭️ | math › divides | ${math}:12 | 0ms |\n`
+    );
+  });
+
+  it("caps the table and notes an empty run", () => {
+    expect(formatTestResultsTable(result(), 2)).toMatch(/\| Test suite failed to run \|.*\n\n_\.\.\.and 2 more\._\n$/);
+    expect(formatTestResultsTable({ ...result(), suites: [], numPassed: 0, numFailed: 0, numSkipped: 0 })).toBe(
+      "**Test Results**: 0 passed, 0 failed, 0 skipped\n\n_No test results were reported._"
+    );
+  });
+});
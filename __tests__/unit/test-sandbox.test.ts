@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  canIsolateNamespaces,
+  createSandbox,
+  removeSandbox,
+  runInSandbox,
+  Sandbox,
+  SandboxIsolation
+} from "@/lib/agents/test-sandbox";
+
+// Namespaces need root or passwordless sudo; elsewhere only the process-level guards are tested
+const isolation: SandboxIsolation = canIsolateNamespaces() ? "namespace" : "process";
+const limits = { timeoutSeconds: 20, maxCpuSeconds: 20, maxMemoryMb: 256, isolation };
+const describeNamespaces = isolation === "namespace" ? describe : describe.skip;
+
+describe("test sandbox", () => {
+  let repoDir: string;
+  let sandbox: Sandbox;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-agent-repo-"));
+    fs.mkdirSync(path.join(repoDir, ".git"));
+    fs.writeFileSync(path.join(repoDir, ".git/config"), "token");
+    fs.writeFileSync(path.join(repoDir, ".env.local"), "OPENAI_API_KEY=secret");
+    fs.writeFileSync(path.join(repoDir, "old.test.ts"), "old");
+    fs.mkdirSync(path.join(repoDir, "node_modules/dep"), { recursive: true });
+    sandbox = createSandbox(
+      [{ filename: "__tests__/new.test.ts", content: "new" }, { filename: "old.test.ts" }],
+      repoDir
+    );
+  });
+
+  afterEach(() => {
+    removeSandbox(sandbox);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("copies the repo without git data and env files, applying the given files", () => {
+    const files = fs.readdirSync(sandbox.workspace);
+    expect(files).toEqual(["__tests__", "node_modules"]);
+    expect(fs.readFileSync(path.join(sandbox.workspace, "__tests__/new.test.ts"), "utf8")).toBe("new");
+  });
+
+  it("refuses files outside the workspace", () => {
+    expect(() => createSandbox([{ filename: "../escape.ts", content: "" }], repoDir)).toThrow(
+      "outside the sandbox"
+    );
+  });
+
+  it("runs without secrets or network access", async () => {
+    process.env.GITHUB_TOKEN_FOR_TEST = "secret";
+    const result = await runInSandbox(
+      sandbox,
+      `node -e "console.log(process.env.GITHUB_TOKEN_FOR_TEST ?? 'no-token'); require('net').connect(80, 'example.com')"`,
+      limits
+    );
+    delete process.env.GITHUB_TOKEN_FOR_TEST;
+    expect(result.output).toContain("no-token");
+    expect(result.output).toContain("Network access is disabled");
+    expect(result.exitCode).not.toBe(0);
+  });
+
+  it("kills commands that exceed the time limit", async () => {
+    const result = await runInSandbox(sandbox, `node -e "setInterval(() => {}, 1000)"`, {
+      ...limits,
+      timeoutSeconds: 1
+    });
+    expect(result.timedOut).toBe(true);
+    expect(result.output).toContain("sandbox time limit");
+  });
+
+  it("limits the memory of every process", async () => {
+    const result = await runInSandbox(sandbox, `node -e "Buffer.alloc(512 * 1024 * 1024, 1)"`, limits);
+    expect(result.output).toContain("Array buffer allocation failed");
+    expect(result.exitCode).not.toBe(0);
+  });
+
+  it("runs without namespaces with process isolation", async () => {
+    const result = await runInSandbox(sandbox, "echo ok > out.txt && cat out.txt", { ...limits, isolation: "process" });
+    expect(result).toEqual({ exitCode: 0, output: "ok\n", timedOut: false });
+  });
+
+  describeNamespaces("in namespaces", () => {
+    const run = async (command: string) => (await runInSandbox(sandbox, command, limits)).output.trim();
+
+    it("runs as nobody, without network interfaces or the agent's processes", async () => {
+      expect(await run("id -u")).toBe("65534");
+      expect(await run("tail -n +3 /proc/net/dev | cut -d: -f1 | tr -d ' '")).toBe("lo");
+      expect(await run(`cat /proc/${process.pid}/environ > /dev/null 2>&1 || echo hidden`)).toBe("hidden");
+    });
+
+    it("mounts node_modules read-only and hides the repo", async () => {
+      expect(await run("ls node_modules && touch node_modules/dep/x 2>&1 || true")).toMatch(/^dep\n.*Read-only/);
+      expect(await run(`ls -A ${repoDir}`)).toBe("");
+      expect(fs.existsSync(path.join(repoDir, "node_modules/dep/x"))).toBe(false);
+    });
+
+    it("hands the workspace back to the agent's user", async () => {
+      await run("echo ok > out.txt");
+      expect(fs.statSync(path.join(sandbox.workspace, "out.txt")).uid).toBe(process.getuid?.());
+      expect(fs.lstatSync(path.join(sandbox.workspace, "node_modules")).isSymbolicLink()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { execSync } from "child_process";
+import { TestProposal } from "@/lib/agents/test-proposals";
+import { TestRunResult } from "@/lib/agents/test-runner";
+import { relatedTestsArgs, selectTests, shouldRunFullSuite } from "@/lib/agents/test-selection";
+import { changedFile, createContext } from "@/__tests__/helpers/context";
+
+const proposal = (filename: string): TestProposal => ({
+  filename,
+  testContent: "test('a', () => {})",
+  actions: { action: "create", oldFilename: "" }
+});
+
+const createSelectionContext = (config = {}) =>
+  createContext({
+    changedFiles: [
+      changedFile("app/page.tsx"),
+      changedFile("lib/old.ts", { status: "removed" }),
+      changedFile("README.md"),
+      changedFile("__tests__/unit/page.test.tsx")
+    ],
+    config
+  });
+
+function runResult(jestFailed: boolean, selection?: string[]): TestRunResult {
+  return { jestFailed, output: "", selection, suites: [], numPassed: 0, numFailed: 0, numSkipped: 0 };
+}
+
+describe("test selection", () => {
+  it("selects the proposals and the changed source files", () => {
+    expect(selectTests(createSelectionContext(), [proposal("__tests__/unit/new.test.ts")])).toEqual([
+      "__tests__/unit/new.test.ts",
+      "app/page.tsx",
+      "__tests__/unit/page.test.tsx"
+    ]);
+  });
+
+  it("runs the full suite in mode all or when nothing can be selected", () => {
+    expect(selectTests(createSelectionContext({ testSelection: { mode: "all" } }), [])).toBeUndefined();
+    expect(selectTests(createContext({ changedFiles: [changedFile("README.md")] }), [])).toBeUndefined();
+  });
+
+  it("confirms selected runs with a full run according to the policy", () => {
+    const onPass = createSelectionContext().config;
+    expect(shouldRunFullSuite(onPass, runResult(false, ["app/page.tsx"]))).toBe(true);
+    expect(shouldRunFullSuite(onPass, runResult(true, ["app/page.tsx"]))).toBe(false);
+    expect(shouldRunFullSuite(onPass, runResult(false))).toBe(false);
+
+    const always = createSelectionContext({ testSelection: { fullRun: "always" } }).config;
+    expect(shouldRunFullSuite(always, runResult(true, ["app/page.tsx"]))).toBe(true);
+    const never = createSelectionContext({ testSelection: { fullRun: "never" } }).config;
+    expect(shouldRunFullSuite(never, runResult(false, ["app/page.tsx"]))).toBe(false);
+  });
+
+  it("quotes the selected paths for the shell", () => {
+    const args = relatedTestsArgs(["app/it's.ts", "app/$(touch pwned).ts"]);
+    const printed = execSync(`printf '%s\\n' ${args}`, { encoding: "utf8" });
+    expect(printed.split("\n")).toEqual([
+      "--passWithNoTests",
+      "--findRelatedTests",
+      "app/it's.ts",
+      "app/$(touch pwned).ts",
+      ""
+    ]);
+  });
+});
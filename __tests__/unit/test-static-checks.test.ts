@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TestProposal } from "@/lib/agents/test-proposals";
+import { checkTestProposals, gateTestProposals } from "@/lib/agents/test-static-checks";
+import { createContext } from "@/__tests__/helpers/context";
+
+// The repo itself is the project the proposals are checked against
+const repoRoot = path.join(__dirname, "../..");
+
+const proposal = (filename: string, testContent: string): TestProposal => ({
+  filename,
+  testContent,
+  actions: { action: "create", oldFilename: "" }
+});
+
+const valid = `import { cn } from "@/lib/utils";\n\ntest("merges classes", () => {\n  expect(cn("a", "b")).toBe("a b");\n});\n`;
+const invalid = `import { cx } from "@/lib/utils";\n\ntest("merges classes", () => {\n  expect(cx("a")).toBe("a");\n});\n`;
+
+describe("static checks for generated tests", () => {
+  const originalEnv = process.env;
+  let responsesDir: string;
+
+  beforeEach(() => {
+    responsesDir = fs.mkdtempSync(path.join(os.tmpdir(), "static-checks-"));
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(responsesDir, { recursive: true, force: true });
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("type-checks proposals in memory against the project's tsconfig paths", async () => {
+    const failures = await checkTestProposals(
+      [proposal("__tests__/unit/ok.test.ts", valid), proposal("__tests__/unit/broken.test.ts", invalid)],
+      { cwd: repoRoot }
+    );
+
+    expect(failures).toEqual([
+      { filename: "__tests__/unit/broken.test.ts", diagnostics: [expect.stringMatching(/^1:10 TS2\d+: .*cx/)] }
+    ]);
+    expect(fs.existsSync(path.join(repoRoot, "__tests__/unit/ok.test.ts"))).toBe(false);
+  }, 60000);
+
+  it("lets the LLM repair failing proposals and drops those still failing", async () => {
+    const responses = path.join(responsesDir, "responses.json");
+    fs.writeFileSync(
+      responses,
+      JSON.stringify({
+        testRepair: {
+          edits: [
+            { filename: "__tests__/unit/fixable.test.ts", testContent: valid },
+            { filename: "__tests__/unit/ok.test.ts", testContent: "not even code(" }
+          ]
+        }
+      })
+    );
+    process.env = { ...originalEnv, LLM_PROVIDER: "fake", LLM_FAKE_RESPONSES: responses };
+
+    const { proposals, note } = await gateTestProposals(
+      createContext({ config: { staticChecks: { lint: false, maxRepairRounds: 1 } } }),
+      [
+        proposal("__tests__/unit/ok.test.ts", valid),
+        proposal("__tests__/unit/fixable.test.ts", invalid),
+        proposal("__tests__/unit/hopeless.test.ts", invalid)
+      ],
+      repoRoot
+    );
+
+    expect(proposals.map(p => [p.filename, p.testContent])).toEqual([
+      ["__tests__/unit/ok.test.ts", valid],
+      ["__tests__/unit/fixable.test.ts", valid]
+    ]);
+    expect(note).toContain("Repaired type or lint errors in 1 generated test file(s).");
+    expect(note).toContain("Dropped 1 generated test file(s) that still had type or lint errors after 1 repair round(s)");
+    expect(note).toContain("`__tests__/unit/hopeless.test.ts`");
+  }, 60000);
+});
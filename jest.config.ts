@@ -33,7 +33,9 @@ const config: Config = {
       "jest-junit",
       {
         outputDirectory: "reports/jest",
-        outputName: "test-results.xml"
+        outputName: "test-results.xml",
+        // Lets the agent map JUnit test cases back to their files
+        addFileAttribute: "true"
       }
     ]
   ],
@@ -46,5 +48,15 @@ const config: Config = {
   ]
 }
 
-// Export the configuration wrapped with Next.js-specific adjustments
-export default createJestConfig(config)
+// Octokit and a few of its dependencies ship only ES modules, so they need to be transformed too
+const ESM_PACKAGES = ["@octokit", "universal-user-agent", "before-after-hook"]
+
+// Export the configuration wrapped with Next.js-specific adjustments.
+// next/jest sets its own transformIgnorePatterns, so we replace them after it resolves.
+export default async () => ({
+  ...(await createJestConfig(config)()),
+  transformIgnorePatterns: [
+    `/node_modules/(?!(${ESM_PACKAGES.join("|")})/)`,
+    "^.+\\.module\\.(css|sass|scss)$"
+  ]
+})
@@ -0,0 +1,360 @@
+/**
+ * This module loads the repository-level agent configuration file.
+ *
+ * The file is looked up in the repo root as .ai-agent.json, .ai-agent.yml or .ai-agent.yaml
+ * and validated with zod. Every setting is optional; missing ones fall back to the defaults below,
+ * so a repo without a config file behaves exactly as before.
+ *
+ * Example (.ai-agent.yml):
+ *   testDir: __tests__/unit
+ *   scope: [app, components]
+ *   maxIterations: 2
+ *   steps:
+ *     review: false
+ *   overrides:
+ *     - paths: ["app/legacy/**"]
+ *       tests: false
+ */
+
+import fs from "fs"
+import path from "path"
+import YAML from "yaml"
+import { z } from "zod"
+
+export const AGENT_CONFIG_FILES = [
+  ".ai-agent.json",
+  ".ai-agent.yml",
+  ".ai-agent.yaml"
+]
+
+/**
+ * Per-path overrides. The first override whose glob matches a file wins.
+ * - exclude: keep the file's content out of prompts.
+ * - maxFileSize: content size limit for these files.
+ * - tests: set to false to never generate tests for these files.
+ */
+const pathOverrideSchema = z
+  .object({
+    paths: z.array(z.string()).min(1),
+    exclude: z.boolean().optional(),
+    maxFileSize: z.number().int().positive().optional(),
+    tests: z.boolean().optional()
+  })
+  .strict()
+
+/**
+ * The schema of the config file.
+ * - testDir: where generated unit tests go.
+ * - allowedTestRoots: the only directories the agent may write, rename or delete test files in (default: [testDir]).
+ * - scope: directories whose code we generate tests for.
+ * - maxIterations: how many times we try to fix failing tests.
+ * - maxFileSize: files larger than this (in characters) are left out of prompts.
+ * - excludePatterns: globs of files that are never included in prompts (lockfiles by default).
+ * - reviewBatchTokens: estimated tokens of changed files per review call; larger PRs are reviewed in several passes.
+ * - commentHistory: how many earlier runs the agent's PR comments keep in their collapsed history.
+ * - incrementalReview: on a push, review only the commits since the agent's last review (see incremental-review.ts).
+ * - importGraph: add the files the changed files import, and (if dependents) the files importing them, to the
+ *   review and test prompts, within maxTokens. Files over fullContentTokens are added as signatures (see import-graph.ts).
+ * - redaction: replace secrets and personal data (if pii) in file contents with placeholders before they reach
+ *   a prompt; entropy also catches random-looking strings. Files matching denyPaths (unless also matching allowPaths)
+ *   are hidden entirely. Secrets the PR adds become high-severity findings (see redaction.ts).
+ * - staticChecks: type-check (and lint, if lint) generated tests before they are committed or run; the LLM gets
+ *   maxRepairRounds tries to fix errors, then failing files are dropped (see test-static-checks.ts).
+ * - coverage: decide on test generation by the coverage of the changed lines instead of asking the LLM: tests are
+ *   generated only if more than maxUncoveredPercent of them aren't run by any test. The LLM still decides if the
+ *   coverage can't be measured (see test-coverage.ts).
+ * - testSelection: during the fix loop, run only the generated tests and the tests related to the changed files
+ *   ("affected"), or the full suite ("all"). fullRun confirms the result with one full run at the end:
+ *   "always", "on-pass" (only if the selected tests pass) or "never" (see test-selection.ts).
+ * - steps: turn each agent step on or off.
+ * - pricing: USD per million input/output tokens by model ID, added to the built-in prices (see run-ledger.ts).
+ * - budget: once a run's LLM usage exceeds maxCostUsd or maxTokens, no further fix attempts are made.
+ * - sandbox: run the tests in an isolated copy of the repo, with limits. isolation "namespace" also runs them in
+ *   Linux namespaces as an unprivileged user; "process" is for runners without root or sudo (see test-sandbox.ts).
+ * - loopPrevention: skip runs triggered by the agent's own commits; authors lists extra logins (e.g. your GitHub
+ *   App's bot, or the user of a PAT) whose commits and comments count as the agent's (see loop-guard.ts).
+ * - checks: report each stage as a GitHub Check Run; the review check fails on findings of failOnSeverity
+ *   or higher ("none" never fails it). See check-runs.ts.
+ * - commands: /ai slash commands in PR comments, for commenters with one of allowedAssociations
+ *   (see slash-commands.ts).
+ * - delivery: how proposed tests reach the PR: "commit" to its branch, or "suggest", "pull-request"
+ *   or "patch" without pushing to it (see test-delivery.ts). An "ai-agent:<mode>" PR label overrides it.
+ */
+export const agentConfigSchema = z
+  .object({
+    testDir: z.string().min(1).default("__tests__/unit"),
+    allowedTestRoots: z.array(z.string().min(1)).min(1).optional(),
+    scope: z.array(z.string().min(1)).min(1).default(["app"]),
+    maxIterations: z.number().int().min(0).default(3),
+    maxFileSize: z.number().int().positive().default(32000),
+    excludePatterns: z
+      .array(z.string())
+      .default(["**/package-lock.json", "**/yarn.lock", "**/pnpm-lock.yaml"]),
+    reviewBatchTokens: z.number().int().positive().default(60000),
+    commentHistory: z.number().int().min(0).default(5),
+    incrementalReview: z.boolean().default(true),
+    importGraph: z
+      .object({
+        enabled: z.boolean().default(true),
+        dependents: z.boolean().default(true),
+        maxTokens: z.number().int().min(0).default(20000),
+        fullContentTokens: z.number().int().positive().default(2000)
+      })
+      .strict()
+      .default({}),
+    redaction: z
+      .object({
+        enabled: z.boolean().default(true),
+        pii: z.boolean().default(true),
+        entropy: z.boolean().default(true),
+        denyPaths: z
+          .array(z.string())
+          .default([
+            "**/.env",
+            "**/.env.*",
+            "**/*.pem",
+            "**/*.key",
+            "**/*.p12",
+            "**/*.pfx",
+            "**/id_rsa*",
+            "**/id_ed25519*",
+            "**/.npmrc"
+          ]),
+        allowPaths: z
+          .array(z.string())
+          .default(["**/.env.example", "**/.env.sample", "**/.env.template"])
+      })
+      .strict()
+      .default({}),
+    staticChecks: z
+      .object({
+        enabled: z.boolean().default(true),
+        lint: z.boolean().default(true),
+        maxRepairRounds: z.number().int().min(0).default(2)
+      })
+      .strict()
+      .default({}),
+    coverage: z
+      .object({
+        enabled: z.boolean().default(true),
+        maxUncoveredPercent: z.number().min(0).max(100).default(20)
+      })
+      .strict()
+      .default({}),
+    testSelection: z
+      .object({
+        mode: z.enum(["affected", "all"]).default("affected"),
+        fullRun: z.enum(["always", "on-pass", "never"]).default("on-pass")
+      })
+      .strict()
+      .default({}),
+    steps: z
+      .object({
+        review: z.boolean().default(true),
+        gating: z.boolean().default(true),
+        testGeneration: z.boolean().default(true),
+        testRun: z.boolean().default(true),
+        testFix: z.boolean().default(true)
+      })
+      .strict()
+      .default({}),
+    overrides: z.array(pathOverrideSchema).default([]),
+    pricing: z
+      .record(
+        z
+          .object({ input: z.number().min(0), output: z.number().min(0) })
+          .strict()
+      )
+      .default({}),
+    budget: z
+      .object({
+        maxCostUsd: z.number().positive().optional(),
+        maxTokens: z.number().int().positive().optional()
+      })
+      .strict()
+      .default({}),
+    sandbox: z
+      .object({
+        enabled: z.boolean().default(true),
+        timeoutSeconds: z.number().int().positive().default(600),
+        maxCpuSeconds: z.number().int().positive().default(900),
+        maxMemoryMb: z.number().int().positive().default(2048),
+        maxWorkers: z.number().int().positive().default(2),
+        isolation: z.enum(["namespace", "process"]).default("namespace")
+      })
+      .strict()
+      .default({}),
+    checks: z
+      .object({
+        enabled: z.boolean().default(true),
+        failOnSeverity: z
+          .enum(["critical", "high", "medium", "low", "info", "none"])
+          .default("critical")
+      })
+      .strict()
+      .default({}),
+    commands: z
+      .object({
+        enabled: z.boolean().default(true),
+        allowedAssociations: z
+          .array(z.string())
+          .default(["OWNER", "MEMBER", "COLLABORATOR"])
+      })
+      .strict()
+      .default({}),
+    delivery: z
+      .enum(["commit", "suggest", "pull-request", "patch"])
+      .default("commit"),
+    loopPrevention: z
+      .object({
+        enabled: z.boolean().default(true),
+        authors: z.array(z.string()).default([])
+      })
+      .strict()
+      .default({})
+  })
+  .strict()
+
+export type AgentConfig = z.infer<typeof agentConfigSchema>
+
+// The config used when the repo has no config file
+export const DEFAULT_AGENT_CONFIG: AgentConfig = agentConfigSchema.parse({})
+
+// Settings that guard the runner, the PR's checks, where the agent may write and what a run may cost;
+// a PR must not be able to change them for its own run
+export const TRUSTED_CONFIG_KEYS = [
+  "sandbox",
+  "redaction",
+  "checks",
+  "commands",
+  "loopPrevention",
+  "allowedTestRoots",
+  "testDir",
+  "delivery",
+  "budget",
+  "pricing",
+  "staticChecks"
+] as const
+
+/**
+ * loadAgentConfig:
+ * - Reads the first config file found in the repo root and validates it.
+ * - Returns the defaults if there is no config file.
+ * - Throws an Error listing every problem if the file can't be parsed or is invalid.
+ */
+export function loadAgentConfig(cwd = process.cwd()): AgentConfig {
+  const configFile = AGENT_CONFIG_FILES.find(f =>
+    fs.existsSync(path.join(cwd, f))
+  )
+  if (!configFile) return DEFAULT_AGENT_CONFIG
+  return parseAgentConfig(
+    configFile,
+    fs.readFileSync(path.join(cwd, configFile), "utf8")
+  )
+}
+
+/**
+ * parseAgentConfig:
+ * - Parses and validates the content of a config file; configFile is its name, which decides the format.
+ * - Throws an Error listing every problem if the content can't be parsed or is invalid.
+ */
+export function parseAgentConfig(configFile: string, raw: string): AgentConfig {
+  let data: unknown
+  try {
+    data = configFile.endsWith(".json") ? JSON.parse(raw) : YAML.parse(raw)
+  } catch (err: any) {
+    throw new Error(`Could not parse ${configFile}: ${err.message}`)
+  }
+
+  // An empty YAML file parses to null; treat it like an empty config
+  const result = agentConfigSchema.safeParse(data ?? {})
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(i => `- \`${i.path.join(".") || "(root)"}\`: ${i.message}`)
+      .join("\n")
+    throw new Error(`Invalid ${configFile}:\n${issues}`)
+  }
+  return result.data
+}
+
+/**
+ * withTrustedSettings:
+ * - The config of a PR's head with the TRUSTED_CONFIG_KEYS settings taken from the trusted (base branch) config.
+ */
+export function withTrustedSettings(
+  config: AgentConfig,
+  trusted: AgentConfig
+): AgentConfig {
+  const settings = Object.fromEntries(
+    TRUSTED_CONFIG_KEYS.map(key => [key, trusted[key]])
+  )
+  return { ...config, ...settings }
+}
+
+/**
+ * getPathSettings:
+ * - Resolves the effective settings for a single file: global settings, then the first matching override.
+ */
+export function getPathSettings(config: AgentConfig, filename: string) {
+  const override = config.overrides.find(o =>
+    o.paths.some(pattern => matchesGlob(filename, pattern))
+  )
+  return {
+    exclude:
+      override?.exclude ??
+      config.excludePatterns.some(pattern => matchesGlob(filename, pattern)),
+    maxFileSize: override?.maxFileSize ?? config.maxFileSize,
+    tests: override?.tests ?? isInScope(config, filename)
+  }
+}
+
+/**
+ * isInScope:
+ * - True if the file lives in one of the directories we generate tests for.
+ */
+export function isInScope(config: AgentConfig, filename: string) {
+  return config.scope.some(dir => {
+    const normalized = dir.replace(/^\/+|\/+$/g, "")
+    return filename === normalized || filename.startsWith(`${normalized}/`)
+  })
+}
+
+/**
+ * describeScope:
+ * - Renders the scope for prompts, e.g. "the /app directory" or "the /app, /lib directories".
+ */
+export function describeScope(config: AgentConfig) {
+  const dirs = config.scope.map(d => `/${d.replace(/^\/+|\/+$/g, "")}`)
+  return dirs.length === 1
+    ? `the ${dirs[0]} directory`
+    : `the ${dirs.join(", ")} directories`
+}
+
+/**
+ * matchesGlob:
+ * - Minimal glob matching for config paths: "**" matches across directories,
+ *   "*" and "?" within a single path segment.
+ */
+export function matchesGlob(filename: string, pattern: string) {
+  let regex = ""
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches zero directories
+      if (pattern[i + 2] === "/") {
+        regex += "(?:.*/)?"
+        i += 2
+      } else {
+        regex += ".*"
+        i++
+      }
+    } else if (char === "*") {
+      regex += "[^/]*"
+    } else if (char === "?") {
+      regex += "[^/]"
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${regex}$`).test(filename)
+}
@@ -0,0 +1,313 @@
+/**
+ * This module reports each stage of the agent as a GitHub Check Run, next to the PR comments.
+ *
+ * - Review, test generation and test execution each get their own check ("AI Agent: Review", ...),
+ *   so branch protection can require exactly the ones a repo cares about.
+ * - A check is "in_progress" while its stage runs and ends with a conclusion (success, failure, ...).
+ * - Review findings become annotations on the changed lines; the test summary is the check's Markdown output.
+ * - Checks belong to a commit. When the agent commits tests, the head moves, and the checks of this run
+ *   are re-created on the new head, so the PR's latest commit carries them.
+ *
+ * Checks need the "checks: write" permission, which tokens of GitHub Apps (including GITHUB_TOKEN) have
+ * and personal access tokens don't. Without it, the agent logs a warning and carries on with comments only.
+ */
+
+import { ReviewAnalysis, ReviewFinding } from "./code-review"
+import { PullRequestContext } from "./pr-context"
+
+export type CheckStage = "review" | "test-generation" | "test-execution"
+
+export const CHECK_NAMES: Record<CheckStage, string> = {
+  review: "AI Agent: Review",
+  "test-generation": "AI Agent: Test Generation",
+  "test-execution": "AI Agent: Test Execution"
+}
+
+/**
+ * An annotation on a line range of a file in the head commit.
+ */
+export interface CheckAnnotation {
+  path: string
+  start_line: number
+  end_line: number
+  annotation_level: "notice" | "warning" | "failure"
+  title: string
+  message: string
+}
+
+/**
+ * How a stage ended.
+ * - summary and text are Markdown; summary is shown first, text below it.
+ */
+export interface CheckResult {
+  conclusion: "success" | "failure" | "neutral" | "skipped" | "cancelled"
+  title: string
+  summary: string
+  text?: string
+  annotations?: CheckAnnotation[]
+}
+
+// The API accepts at most 50 annotations per request
+const ANNOTATIONS_PER_REQUEST = 50
+// Check run output fields are limited to 65535 characters
+const MAX_OUTPUT_LENGTH = 65000
+
+const ANNOTATION_LEVELS: Record<
+  ReviewFinding["severity"],
+  CheckAnnotation["annotation_level"]
+> = {
+  critical: "failure",
+  high: "failure",
+  medium: "warning",
+  low: "warning",
+  info: "notice"
+}
+
+const SEVERITY_ORDER: ReviewFinding["severity"][] = [
+  "info",
+  "low",
+  "medium",
+  "high",
+  "critical"
+]
+
+// The checks of the current run, by stage
+const checks = new Map<
+  CheckStage,
+  { id: number; headSha: string; result?: CheckResult }
+>()
+// Set once the token turned out not to be allowed to create checks
+let checksUnavailable = false
+
+/**
+ * resetChecks:
+ * - Starts a new run without checks.
+ */
+export function resetChecks() {
+  checks.clear()
+  checksUnavailable = false
+}
+
+/**
+ * startCheck:
+ * - Creates the stage's check on the head commit, in progress.
+ */
+export async function startCheck(
+  octokit: any,
+  context: PullRequestContext,
+  stage: CheckStage
+) {
+  if (!checksEnabled(context)) return
+  await moveChecksToHead(octokit, context)
+  await withChecks(async () => {
+    const { data } = await octokit.checks.create({
+      owner: context.owner,
+      repo: context.repo,
+      name: CHECK_NAMES[stage],
+      head_sha: context.headSha,
+      status: "in_progress",
+      started_at: new Date().toISOString()
+    })
+    checks.set(stage, { id: data.id, headSha: context.headSha })
+  })
+}
+
+/**
+ * completeCheck:
+ * - Completes the stage's check with the result's conclusion, output and annotations.
+ * - Does nothing if the stage's check was never started (e.g. the token can't create checks).
+ */
+export async function completeCheck(
+  octokit: any,
+  context: PullRequestContext,
+  stage: CheckStage,
+  result: CheckResult
+) {
+  if (!checksEnabled(context)) return
+  await moveChecksToHead(octokit, context)
+  const check = checks.get(stage)
+  if (!check) return
+  check.result = result
+  await withChecks(() =>
+    writeResult(octokit, context, { check_run_id: check.id }, result)
+  )
+}
+
+/**
+ * completeOpenChecks:
+ * - Completes every check that is still in progress, e.g. when the run stops early or crashes.
+ */
+export async function completeOpenChecks(
+  octokit: any,
+  context: PullRequestContext,
+  result: CheckResult
+) {
+  for (const [stage, check] of checks) {
+    if (!check.result) await completeCheck(octokit, context, stage, result)
+  }
+}
+
+/**
+ * reviewCheckResult:
+ * - Turns the review into a check result: one annotation per finding on the head version of a changed file.
+ * - The check fails if a finding is at least as severe as the config's checks.failOnSeverity.
+ */
+export function reviewCheckResult(
+  context: PullRequestContext,
+  analysis: ReviewAnalysis
+): CheckResult {
+  const { failOnSeverity } = context.config.checks
+  const blocking = analysis.findings.filter(
+    f =>
+      failOnSeverity !== "none" &&
+      SEVERITY_ORDER.indexOf(f.severity) >=
+        SEVERITY_ORDER.indexOf(failOnSeverity)
+  )
+  const annotations = analysis.findings
+    // Annotations can only point at lines of the head commit's files
+    .filter(
+      f =>
+        f.side === "RIGHT" &&
+        context.changedFiles.some(
+          c => c.filename === f.path && c.status !== "removed"
+        )
+    )
+    .map(f => ({
+      path: f.path,
+      start_line: Math.min(f.startLine ?? f.line, f.line),
+      end_line: f.line,
+      annotation_level: ANNOTATION_LEVELS[f.severity],
+      title: `${f.severity} · ${f.category}`,
+      message: f.message
+    }))
+
+  return {
+    conclusion: blocking.length > 0 ? "failure" : "success",
+    title:
+      blocking.length > 0
+        ? `${blocking.length} finding(s) of severity ${failOnSeverity} or higher`
+        : `${analysis.findings.length} finding(s)`,
+    summary: analysis.summary,
+    text: analysis.overallSuggestions.map(s => `- ${s}`).join("\n"),
+    annotations
+  }
+}
+
+function checksEnabled(context: PullRequestContext) {
+  return !context.local && context.config.checks.enabled && !checksUnavailable
+}
+
+/**
+ * moveChecksToHead:
+ * - Re-creates the run's checks on the current head after the agent committed to the branch.
+ * - A check still in progress on the old head is closed there as neutral.
+ */
+async function moveChecksToHead(octokit: any, context: PullRequestContext) {
+  for (const [stage, check] of checks) {
+    if (check.headSha === context.headSha) continue
+    const oldId = check.id
+    await withChecks(async () => {
+      const target = {
+        name: CHECK_NAMES[stage],
+        head_sha: context.headSha
+      }
+      if (check.result) {
+        check.id = await writeResult(octokit, context, target, check.result)
+      } else {
+        const { data } = await octokit.checks.create({
+          owner: context.owner,
+          repo: context.repo,
+          ...target,
+          status: "in_progress",
+          started_at: new Date().toISOString()
+        })
+        check.id = data.id
+        await writeResult(
+          octokit,
+          context,
+          { check_run_id: oldId },
+          {
+            conclusion: "neutral",
+            title: "Continued on a newer commit",
+            summary: `The agent committed to the branch; this check continues on ${context.headSha.slice(0, 7)}.`
+          }
+        )
+      }
+      check.headSha = context.headSha
+    })
+  }
+}
+
+/**
+ * writeResult:
+ * - Completes an existing check (check_run_id) or creates a completed one (name and head_sha).
+ * - Annotations beyond the first 50 are added with further updates; returns the check's ID.
+ */
+async function writeResult(
+  octokit: any,
+  context: PullRequestContext,
+  target: { check_run_id: number } | { name: string; head_sha: string },
+  result: CheckResult
+): Promise<number> {
+  const annotations = result.annotations ?? []
+  const output = {
+    title: result.title,
+    summary: truncate(result.summary),
+    text: result.text ? truncate(result.text) : undefined
+  }
+  const params = {
+    owner: context.owner,
+    repo: context.repo,
+    ...target,
+    status: "completed",
+    conclusion: result.conclusion,
+    completed_at: new Date().toISOString(),
+    output: {
+      ...output,
+      annotations: annotations.slice(0, ANNOTATIONS_PER_REQUEST)
+    }
+  }
+  const { data } =
+    "check_run_id" in target
+      ? await octokit.checks.update(params)
+      : await octokit.checks.create(params)
+
+  for (
+    let i = ANNOTATIONS_PER_REQUEST;
+    i < annotations.length;
+    i += ANNOTATIONS_PER_REQUEST
+  ) {
+    await octokit.checks.update({
+      owner: context.owner,
+      repo: context.repo,
+      check_run_id: data.id,
+      output: {
+        ...output,
+        annotations: annotations.slice(i, i + ANNOTATIONS_PER_REQUEST)
+      }
+    })
+  }
+  return data.id
+}
+
+// Runs a Checks API call; a token without access to checks turns them off for the rest of the run
+async function withChecks(call: () => Promise<unknown>) {
+  try {
+    await call()
+  } catch (err: any) {
+    if (err.status === 403) {
+      checksUnavailable = true
+      console.warn(
+        `The token can't create check runs (needs "checks: write" and a GitHub App token), reporting through comments only: ${err.message}`
+      )
+      return
+    }
+    console.error("Error updating check run:", err)
+  }
+}
+
+function truncate(text: string) {
+  return text.length > MAX_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_OUTPUT_LENGTH)}\n\n_(truncated)_`
+    : text
+}
@@ -4,16 +4,57 @@
  *
  * High-level process:
  * 1. We create a consolidated prompt, combining the PR's changed files/patches.
+ *    Large PRs are split into batches that fit the model's context, reviewed one by one and then merged.
  * 2. We pass this prompt to the model, requesting a structured JSON response.
- * 3. The JSON includes a summary, file-by-file analyses, and overall suggestions.
- * 4. We then return and post these results as a comment on GitHub.
+ * 3. The JSON includes a summary, file-by-file analyses, overall suggestions, and line-level findings.
+ * 4. We then return and post these results as a comment on GitHub,
+ *    and post the findings as inline review comments (see review-comments.ts).
+ *
+ * On a push to a PR that was reviewed before, only the changes since the last review are sent
+ * (see incremental-review.ts).
  */
 
 import { generateObject } from "ai"
 import { z } from "zod"
 import { updateComment } from "./github-comments"
-import { getLLMModel } from "./llm"
-import { PullRequestContext } from "./pr-context"
+import { formatRelatedFiles } from "./import-graph"
+import {
+  formatOpenFindings,
+  formatReviewedMarker,
+  OpenFinding
+} from "./incremental-review"
+import { getLLMCallSettings } from "./llm"
+import { formatFileHeader, PullRequestContext } from "./pr-context"
+import {
+  injectionFindings,
+  UNTRUSTED_DATA_RULES,
+  wrapUntrusted
+} from "./prompt-safety"
+import { leakFindings } from "./redaction"
+import { formatFindingsList, postReviewFindings } from "./review-comments"
+
+/**
+ * A single line-anchored finding.
+ * - line/side: where the finding ends; "RIGHT" is the new version of the file, "LEFT" the old one.
+ * - startLine: first line of a multi-line finding (equal to line for single-line findings).
+ */
+export const reviewFindingSchema = z.object({
+  path: z.string(),
+  startLine: z.number().int(),
+  line: z.number().int(),
+  side: z.enum(["LEFT", "RIGHT"]),
+  severity: z.enum(["critical", "high", "medium", "low", "info"]),
+  category: z.enum([
+    "bug",
+    "security",
+    "performance",
+    "maintainability",
+    "style",
+    "testing",
+    "documentation"
+  ]),
+  message: z.string()
+})
 
 /**
  * This schema is used to define the structure of the JSON we expect from the LLM.
@@ -27,30 +68,57 @@ export const reviewSchema = z.object({
       analysis: z.string()
     })
   ),
-  overallSuggestions: z.array(z.string())
+  overallSuggestions: z.array(z.string()),
+  findings: z.array(reviewFindingSchema)
 })
 
 // The TypeScript type of the parsed JSON response from our LLM.
 export type ReviewAnalysis = z.infer<typeof reviewSchema>
+export type ReviewFinding = z.infer<typeof reviewFindingSchema>
 
 /**
  * handleReviewAgent:
  * - Orchestrates the entire code-review step.
- * - Calls generateReview() to get the review from the LLM.
+ * - Calls generateReview() to get the review from the LLM (in several passes for large PRs).
  * - Updates the PR comment with the new data (summary, file analyses, suggestions).
+ * - Posts the line-level findings as one pull request review with inline comments.
+ * - Records the reviewed head SHA in a hidden marker, for the next incremental review,
+ *   but only if every pass and the synthesis succeeded (otherwise the next run reviews it all again).
+ * - Returns the analysis and the updated comment body.
  */
 export async function handleReviewAgent(
   octokit: any,
   context: PullRequestContext,
   reviewCommentId: number,
   reviewBody: string
-): Promise<ReviewAnalysis | undefined> {
+): Promise<{ analysis: ReviewAnalysis; reviewBody: string }> {
   // get the actual analysis JSON from our LLM
-  const analysis = await generateReview(context)
+  const { analysis, passes, complete } = await generateReview(context)
+
+  const { incremental } = context
+  // Secrets the redaction pass found never reached the model, so we report them ourselves,
+  // together with added lines that try to instruct an AI
+  const reviewedFiles = incremental?.changedFiles ?? context.changedFiles
+  analysis.findings.unshift(
+    ...leakFindings(reviewedFiles),
+    ...injectionFindings(reviewedFiles)
+  )
+  if (incremental) {
+    reviewBody += `\n\n_Reviewing the ${incremental.commitMessages.length} commit(s) pushed since ${incremental.sinceSha.slice(0, 7)}._`
+  }
 
   // Append the summary, file analyses, and suggestions to the existing comment body
   reviewBody += "\n\n**Summary**\n" + analysis.summary
 
+  // Large PRs are reviewed in several passes; show which files went into which
+  if (passes.length > 1) {
+    reviewBody += "\n\n**Review Passes**\n"
+    for (const [i, pass] of passes.entries()) {
+      const status = pass.failed ? " ⚠️ _(review failed)_" : ""
+      reviewBody += `\n- Pass ${i + 1}${status}: ${pass.files.join(", ")}`
+    }
+  }
+
   if (analysis.fileAnalyses.length > 0) {
     reviewBody += "\n\n**File Analyses**\n"
     for (const f of analysis.fileAnalyses) {
@@ -65,65 +133,248 @@ export async function handleReviewAgent(
     }
   }
 
+  if (analysis.findings.length > 0) {
+    if (context.local) {
+      // There is no diff view locally, so the findings are listed in the comment
+      reviewBody += `\n\n**Findings**\n${formatFindingsList(analysis.findings)}`
+    } else {
+      const posted = await postReviewFindings(
+        octokit,
+        context,
+        analysis.findings
+      )
+      reviewBody += `\n\n**Findings**: ${posted.inline} posted inline, ${posted.unanchored} in the review body.`
+    }
+  }
+
+  if (incremental && incremental.openFindings.length > 0) {
+    reviewBody += `\n\n**Unresolved Earlier Findings**\n${formatOpenFindings(incremental.openFindings)}`
+  }
+
+  if (!context.local && complete) {
+    reviewBody += `\n\n${formatReviewedMarker(context.headSha)}`
+  }
+
   // Update the GitHub comment with the final code review content
   await updateComment(octokit, context, reviewCommentId, reviewBody)
 
-  return analysis
+  return { analysis, reviewBody }
+}
+
+/**
+ * A review pass: which files the LLM reviewed together in one call.
+ * - failed: the call errored or its JSON wasn't valid, so these files have no analysis.
+ */
+export interface ReviewPass {
+  files: string[]
+  failed: boolean
+}
+
+type ChangedFile = PullRequestContext["changedFiles"][number]
+
+// The final pass that merges the per-batch reviews of a large PR
+const reviewSynthesisSchema = z.object({
+  summary: z.string(),
+  overallSuggestions: z.array(z.string())
+})
+
+/**
+ * estimateTokens:
+ * - A rough 4-characters-per-token estimate. Good enough to keep prompts under the model's context.
+ */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * formatFileForReview:
+ * - Renders one changed file for the review prompt (patch, content, and the content before the PR if we have it).
+ * - If that doesn't fit the token budget, drops the base content, then the content;
+ *   a patch that still doesn't fit is truncated.
+ * - A file whose content wasn't fetched (see buildPRContext) gets its patch only.
+ */
+export function formatFileForReview(f: ChangedFile, maxTokens: number) {
+  const name = formatFileHeader(f)
+  // If excluded, we note that we're not including content details in the prompt
+  if (f.excluded) return `${name} [EXCLUDED FROM PROMPT]`
+  // Otherwise, include patch + file content (+ base content)
+  if (f.content !== undefined) {
+    const withContent = `${name}\nPatch:\n${f.patch}\nContent:\n${f.content}`
+    if (f.baseContent !== undefined) {
+      const full = `${withContent}\nContent before this PR:\n${f.baseContent}`
+      if (estimateTokens(full) <= maxTokens) return full
+    }
+    if (estimateTokens(withContent) <= maxTokens) return withContent
+  }
+
+  const patchOnly = `${name}\nPatch:\n${f.patch}\nContent: ${f.content === undefined ? "[NOT FETCHED]" : "[OMITTED, FILE TOO LARGE]"}`
+  if (estimateTokens(patchOnly) <= maxTokens) return patchOnly
+
+  const header = `${name}\nPatch [TRUNCATED]:\n`
+  return header + f.patch.slice(0, maxTokens * 4 - header.length)
+}
+
+/**
+ * batchChangedFiles:
+ * - Splits the changed files into batches whose rendered prompts fit in maxTokens each.
+ * - Keeps the PR's file order and fills each batch greedily; a file is never split across batches.
+ */
+export function batchChangedFiles(
+  files: ChangedFile[],
+  maxTokens: number
+): { files: string[]; prompt: string }[] {
+  const batches: { files: string[]; blocks: string[]; tokens: number }[] = []
+  for (const f of files) {
+    const block = formatFileForReview(f, maxTokens)
+    const tokens = estimateTokens(block)
+    const current = batches[batches.length - 1]
+    if (current && current.tokens + tokens <= maxTokens) {
+      current.files.push(f.filename)
+      current.blocks.push(block)
+      current.tokens += tokens
+    } else {
+      batches.push({ files: [f.filename], blocks: [block], tokens })
+    }
+  }
+  return batches.map(b => ({
+    files: b.files,
+    prompt: b.blocks.join("\n---\n")
+  }))
 }
 
 /**
  * generateReview:
- * - Builds a prompt using the changed PR files (including patches and optionally file contents).
- * - Calls the LLM with that prompt to obtain structured JSON review data.
- * - If parsing fails, returns a fallback object indicating an error.
+ * - Splits the changed files into token-sized batches (see batchChangedFiles).
+ * - Reviews each batch with its own LLM call ("map").
+ * - If there was more than one batch, a synthesis call merges the summaries and deduplicates
+ *   the suggestions ("reduce"); file analyses and findings are simply concatenated.
+ * - Returns the merged review plus the files reviewed in each pass;
+ *   complete is false if any pass or the synthesis failed.
  */
-async function generateReview(
-  context: PullRequestContext
-): Promise<ReviewAnalysis> {
-  // Prepare text blocks for changed files
-  const changedFilesPrompt = context.changedFiles
-    .map(f => {
-      // If excluded, we note that we're not including content details in the prompt
-      if (f.excluded) return `File: ${f.filename} [EXCLUDED FROM PROMPT]`
-      // Otherwise, include patch + file content
-      return `File: ${f.filename}\nPatch:\n${f.patch}\nContent:\n${f.content ?? ""}`
-    })
-    .join("\n---\n")
+async function generateReview(context: PullRequestContext): Promise<{
+  analysis: ReviewAnalysis
+  passes: ReviewPass[]
+  complete: boolean
+}> {
+  // An incremental review only looks at the files changed since the last review
+  const batches = batchChangedFiles(
+    context.incremental?.changedFiles ?? context.changedFiles,
+    context.config.reviewBatchTokens
+  )
+
+  const reviews: ReviewAnalysis[] = []
+  const passes: ReviewPass[] = []
+  for (const [i, batch] of batches.entries()) {
+    const part =
+      batches.length > 1 ? { index: i + 1, total: batches.length } : undefined
+    const review = await reviewBatch(context, batch.prompt, part)
+    passes.push({ files: batch.files, failed: !review })
+    if (review) reviews.push(review)
+  }
+
+  if (reviews.length === 0) {
+    // If every call errored or the LLM's JSON wasn't valid, return a fallback.
+    return {
+      analysis: {
+        summary: "Review parse error",
+        fileAnalyses: [],
+        overallSuggestions: [],
+        findings: []
+      },
+      passes,
+      complete: false
+    }
+  }
+  if (batches.length === 1) {
+    return { analysis: reviews[0], passes, complete: true }
+  }
+
+  const synthesis = await synthesizeReviews(context, reviews)
+  return {
+    analysis: {
+      summary: synthesis.summary,
+      fileAnalyses: reviews.flatMap(r => r.fileAnalyses),
+      overallSuggestions: synthesis.overallSuggestions,
+      findings: reviews.flatMap(r => r.findings)
+    },
+    passes,
+    complete: !synthesis.failed && passes.every(p => !p.failed)
+  }
+}
+
+/**
+ * reviewBatch:
+ * - Builds the review prompt for one batch of changed files and calls the LLM.
+ * - part is set when the PR was split, so the LLM knows it only sees some of the files.
+ * - Returns undefined if the call fails or the JSON doesn't match the schema.
+ */
+async function reviewBatch(
+  context: PullRequestContext,
+  changedFilesPrompt: string,
+  part?: { index: number; total: number }
+): Promise<ReviewAnalysis | undefined> {
+  const partNote = part
+    ? `\nThis PR is too large to review at once. You are reviewing part ${part.index} of ${part.total}: only some of the changed files are shown below. Review just those files.\n`
+    : ""
+  const { incremental } = context
+  const incrementalNote = incremental
+    ? `\nThis PR was reviewed before, at commit ${incremental.sinceSha.slice(0, 7)}. The patches below only show the changes pushed since then; focus your review on them.\n${incremental.openFindings.length > 0 ? "The earlier findings listed below are still unresolved. Mention in the summary whether the new changes address them, and don't repeat them as new findings.\n" : ""}`
+    : ""
 
   /**
-   * This prompt is a carefully structured text we send to the LLM, explaining
-   * how we want the response (in valid JSON) and specifying the relevant PR details.
+   * The system message explains the task and how we want the response (in valid JSON);
+   * the PR's details go into the user message as untrusted data.
    */
-  const prompt = `
+  const system = `
 You are an expert code reviewer. Return valid JSON only, with the structure:
 {
   "summary": "string",
   "fileAnalyses": [
     { "path": "string", "analysis": "string" }
   ],
-  "overallSuggestions": ["string"]
+  "overallSuggestions": ["string"],
+  "findings": [
+    {
+      "path": "string",
+      "startLine": number,
+      "line": number,
+      "side": "RIGHT" or "LEFT",
+      "severity": "critical" or "high" or "medium" or "low" or "info",
+      "category": "bug" or "security" or "performance" or "maintainability" or "style" or "testing" or "documentation",
+      "message": "string"
+    }
+  ]
 }
 
-PR Title: ${context.title}
+Findings are concrete issues tied to specific lines. Use the line numbers from the patch hunks:
+"RIGHT" for lines in the new version of the file (added or unchanged), "LEFT" for removed lines.
+For a single-line finding, startLine equals line.
+${partNote}${incrementalNote}
+${UNTRUSTED_DATA_RULES}
+`
+  const prompt = `
+PR Title:
+${wrapUntrusted("title", context.title)}
 Commits:
-${context.commitMessages.map(m => `- ${m}`).join("\n")}
+${wrapUntrusted("commits", (incremental?.commitMessages ?? context.commitMessages).map(m => `- ${m}`).join("\n"))}
 Changed Files:
-${changedFilesPrompt}
-`
+${wrapUntrusted("changed-files", changedFilesPrompt)}
+${incremental ? formatOpenFindingsNote(incremental.openFindings) : ""}${formatRelatedFiles(context.relatedFiles)}`
   console.log(`\n\n\n\n\n--------------------------------`)
-  console.log(`Review prompt:\n${prompt}`)
+  console.log(`Review prompt:\n${system}\n${prompt}`)
   console.log(`--------------------------------\n\n\n\n\n`)
 
-  // Obtain the configured LLM model (OpenAI or Anthropic, etc.)
-  const modelInfo = getLLMModel()
+  // Obtain the LLM model and call settings configured for the review step
+  const llm = getLLMCallSettings("review")
 
   try {
     // Use ai-sdk's generateObject to parse strictly into the schema we declared above.
     const result = await generateObject({
-      model: modelInfo,
+      ...llm,
       schema: reviewSchema,
       schemaName: "review",
       schemaDescription: "Code review feedback in JSON",
+      system,
       prompt
     })
     console.log(`\n\n\n\n\n--------------------------------`)
@@ -131,11 +382,86 @@ ${changedFilesPrompt}
     console.log(`--------------------------------\n\n\n\n\n`)
     return result.object
   } catch (err) {
-    // If there's an error or the LLM's JSON wasn't valid, return a fallback.
+    console.error("Error reviewing files:", err)
+    return undefined
+  }
+}
+
+/**
+ * formatOpenFindingsNote:
+ * - Lists earlier findings that are still open, so the LLM can say whether the new changes address them.
+ */
+function formatOpenFindingsNote(findings: OpenFinding[]) {
+  if (findings.length === 0) return ""
+  return `Unresolved Earlier Findings:
+${wrapUntrusted("earlier-findings", findings.map(f => `- ${f.path}${f.line ? `:${f.line}` : ""}: ${f.message}`).join("\n"))}
+`
+}
+
+/**
+ * synthesizeReviews:
+ * - Asks the LLM to merge the per-batch summaries into one and to deduplicate the suggestions.
+ * - Falls back to joining the summaries and dropping exact duplicate suggestions if the call fails
+ *   (failed is then true).
+ */
+async function synthesizeReviews(
+  context: PullRequestContext,
+  reviews: ReviewAnalysis[]
+): Promise<z.infer<typeof reviewSynthesisSchema> & { failed: boolean }> {
+  const system = `
+You are an expert code reviewer. A large PR was reviewed in ${reviews.length} parts.
+Merge the partial reviews you are given into one review. Return valid JSON only, with the structure:
+{
+  "summary": "string",
+  "overallSuggestions": ["string"]
+}
+
+The summary should describe the PR as a whole. Merge suggestions that say the same thing and drop duplicates.
+
+${UNTRUSTED_DATA_RULES}
+`
+  const prompt = `
+PR Title:
+${wrapUntrusted("title", context.title)}
+${wrapUntrusted(
+  "partial-reviews",
+  reviews
+    .map(
+      (r, i) =>
+        `Part ${i + 1} summary:\n${r.summary}\nPart ${i + 1} suggestions:\n${r.overallSuggestions.map(s => `- ${s}`).join("\n")}`
+    )
+    .join("\n---\n")
+)}
+`
+  console.log(`Review synthesis prompt:\n${system}\n${prompt}`)
+  console.log(`--------------------------------\n\n\n\n\n`)
+
+  const llm = getLLMCallSettings("review")
+
+  try {
+    const result = await generateObject({
+      ...llm,
+      schema: reviewSynthesisSchema,
+      schemaName: "reviewSynthesis",
+      schemaDescription: "Merged code review summary and suggestions in JSON",
+      system,
+      prompt
+    })
+    return { ...result.object, failed: false }
+  } catch (err) {
+    console.error("Error synthesizing reviews:", err)
+    const seen = new Set<string>()
     return {
-      summary: "Review parse error",
-      fileAnalyses: [],
-      overallSuggestions: []
+      failed: true,
+      summary: reviews.map(r => r.summary).join("\n\n"),
+      overallSuggestions: reviews
+        .flatMap(r => r.overallSuggestions)
+        .filter(s => {
+          const key = s.trim().toLowerCase()
+          if (seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
     }
   }
 }
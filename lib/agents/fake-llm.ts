@@ -0,0 +1,113 @@
+/**
+ * This module implements a deterministic, in-process LLM provider ("fake").
+ *
+ * It never talks to the network, so the whole flow can run on an air-gapped runner or in tests without keys.
+ * - If LLM_FAKE_RESPONSES points to a JSON file, the response for each call is looked up there
+ *   by schema name (e.g. "review", "decision", "testProposals").
+ * - Otherwise it returns the smallest object that satisfies the requested JSON schema
+ *   (empty strings and arrays, false, 0, the first enum value).
+ */
+
+import {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart
+} from "@ai-sdk/provider"
+import fs from "fs"
+
+/**
+ * createFakeLanguageModel:
+ * - Returns a LanguageModelV1 that answers object-generation calls from fixtures or from the schema.
+ * - responsesPath: optional JSON file mapping schema names to the object to return.
+ */
+export function createFakeLanguageModel(
+  modelId = "fake-model",
+  responsesPath?: string
+): LanguageModelV1 {
+  const responses: Record<string, unknown> = responsesPath
+    ? JSON.parse(fs.readFileSync(responsesPath, "utf8"))
+    : {}
+
+  const generate = (options: LanguageModelV1CallOptions) => {
+    const mode = options.mode
+    const object =
+      mode.type === "object-json"
+        ? mode.name && mode.name in responses
+          ? responses[mode.name]
+          : defaultForSchema(mode.schema)
+        : undefined
+    const text = object === undefined ? "" : JSON.stringify(object)
+    const promptText = JSON.stringify(options.prompt)
+
+    return {
+      text,
+      finishReason: "stop" as const,
+      // A rough 4-characters-per-token estimate keeps usage deterministic too
+      usage: {
+        promptTokens: Math.ceil(promptText.length / 4),
+        completionTokens: Math.ceil(text.length / 4)
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+    }
+  }
+
+  return {
+    specificationVersion: "v1",
+    provider: "fake",
+    modelId,
+    defaultObjectGenerationMode: "json",
+    async doGenerate(options) {
+      return generate(options)
+    },
+    async doStream(options) {
+      const result = generate(options)
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          controller.enqueue({ type: "text-delta", textDelta: result.text })
+          controller.enqueue({
+            type: "finish",
+            finishReason: result.finishReason,
+            usage: result.usage
+          })
+          controller.close()
+        }
+      })
+      return { stream, rawCall: result.rawCall }
+    }
+  }
+}
+
+/**
+ * defaultForSchema:
+ * - Builds the minimal value that validates against a (zod-generated) JSON schema.
+ */
+function defaultForSchema(schema: any): unknown {
+  if (!schema) return {}
+  if (schema.enum) return schema.enum[0]
+  if (schema.const !== undefined) return schema.const
+  if (schema.anyOf) return defaultForSchema(schema.anyOf[0])
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type
+  switch (type) {
+    case "object": {
+      const result: Record<string, unknown> = {}
+      for (const key of schema.required || []) {
+        result[key] = defaultForSchema(schema.properties?.[key])
+      }
+      return result
+    }
+    case "array":
+      return []
+    case "string":
+      return ""
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0
+    case "boolean":
+      return false
+    case "null":
+      return null
+    default:
+      return {}
+  }
+}
@@ -2,149 +2,673 @@
  * This file orchestrates the overall AI agent flow, from code review to test generation and iterative test fixing.
  *
  * Flow breakdown:
+ *  0) We skip runs triggered by the agent's own commits (see loop-guard.ts).
  *  1) We fetch GitHub context data (the PR details, changed files, etc.).
+ *     On a push, the review only covers the commits since the last review (see incremental-review.ts).
  *  2) We post a placeholder comment and update it with review content (handleReviewAgent).
+ *     The agent's comments are reused across runs, with earlier runs collapsed (see github-comments.ts).
  *  3) We check if we should generate tests (gatingStep).
  *  4) If yes, we generate new tests or update existing ones (handleTestGeneration).
- *  5) Then we run local tests (runLocalTests).
+ *  5) Then we run local tests (runLocalTests): by default only the tests affected by the PR (see test-selection.ts).
  *  6) If the tests fail, we attempt a fix up to X iterations (handleTestFix).
+ *     The full suite then runs once to confirm the result.
  *  7) Ultimately, if the tests pass, we post success. Otherwise, we fail the Action.
+ *
+ * Review, test generation and test execution are also reported as Check Runs (see check-runs.ts).
+ *
+ * Each step can be turned off, and the fix loop bounded, in the repo's agent config (see agent-config.ts).
+ * LLM usage is tracked in a run ledger (see run-ledger.ts); its cost summary ends up in the last comment,
+ * and a budget in the config stops further fix attempts.
+ *
+ * "/ai" slash commands in PR comments run single stages on demand (see slash-commands.ts).
+ * The agent runs from its own checkout of the default branch; the PR's code is a separate checkout
+ * (AI_AGENT_WORKSPACE), and is never run or type-checked when there is none, e.g. for a PR from a fork.
+ *
+ * runLocalFlow runs the same steps against a local git range, printing the results instead of commenting.
  */
 
 import { Octokit } from "@octokit/rest"
 import * as fs from "fs"
+import {
+  AGENT_CONFIG_FILES,
+  AgentConfig,
+  DEFAULT_AGENT_CONFIG,
+  loadAgentConfig,
+  parseAgentConfig,
+  withTrustedSettings
+} from "./agent-config"
+import {
+  completeCheck,
+  completeOpenChecks,
+  resetChecks,
+  reviewCheckResult,
+  startCheck
+} from "./check-runs"
 import { handleReviewAgent, ReviewAnalysis } from "./code-review"
-import { createComment, updateComment } from "./github-comments"
-import { buildPRContext, buildTestContext } from "./pr-context"
+import { BranchMovedError } from "./github-commit"
+import { createComment, updateComment, upsertComment } from "./github-comments"
+import { collectRelatedFiles } from "./import-graph"
+import { buildIncrementalReview } from "./incremental-review"
+import { buildLocalPRContext, buildLocalTestContext } from "./local-context"
+import { flushLocalReport } from "./local-report"
+import { decideRun } from "./loop-guard"
+import { withOctokitFixtures } from "./record-replay"
+import { redactRunContext } from "./redaction"
+import {
+  checkBudget,
+  formatCostSummary,
+  resetLedger,
+  writeLedgerReport
+} from "./run-ledger"
+import {
+  buildPRContext,
+  buildTestContext,
+  getFileContent,
+  PullRequestContext
+} from "./pr-context"
+import {
+  commandConfig,
+  filterChangedFiles,
+  formatCommandHelp,
+  handleExplainCommand,
+  isCommandAllowed,
+  parseSlashCommand,
+  reactToComment,
+  SKIP_LABEL
+} from "./slash-commands"
 import { handleTestFix } from "./test-fix"
 import { gatingStep } from "./test-gating"
-import { handleTestGeneration } from "./test-proposals"
-import { runLocalTests } from "./test-runner"
+import { handleTestGeneration, TestProposal } from "./test-proposals"
+import {
+  formatTestResultsTable,
+  getFailedTests,
+  runLocalTests
+} from "./test-runner"
+import { selectTests, shouldRunFullSuite } from "./test-selection"
+
+// Why the test steps are off when the PR's code isn't checked out (see runFlow)
+const NO_CHECKOUT_REASON =
+  "because the PR's code isn't checked out on the runner (e.g. for a PR from a fork)"
 
 /**
  * runFlow is the main entry point called by ai-flow.ts to coordinate everything.
- * - It reads the GitHub event data to ensure it's a pull request event.
+ * - It reads the GitHub event data to ensure it's a pull request event, or a comment on a pull request
+ *   (which is handled as a slash command by runCommand).
  * - Gathers the PR context, calls the code review logic, test gating, test generation, and test fix loops.
  * - In short, this is the "brain" function that ties all submodules together.
+ * - Returns false if the run should fail the Action (ai-flow.ts turns that into the exit code).
  */
-export async function runFlow() {
+export async function runFlow(): Promise<boolean> {
   const githubToken = process.env.GITHUB_TOKEN
   if (!githubToken) {
     console.error("Missing GITHUB_TOKEN - cannot proceed.")
-    process.exit(1)
+    return false
   }
 
   const eventPath = process.env.GITHUB_EVENT_PATH
   if (!eventPath) {
     console.error("No GITHUB_EVENT_PATH found. Not in GitHub Actions? Exiting.")
-    return
+    return true
   }
 
-  // Reading the event payload to see if it's a pull_request event
+  // Reading the event payload to see if it's a pull_request event (or a comment on a pull request)
   const eventData = JSON.parse(fs.readFileSync(eventPath, "utf8"))
   const pullRequest = eventData.pull_request
-  if (!pullRequest) {
-    console.error("Not a pull_request event. Exiting.")
-    return
+  const comment = eventData.issue?.pull_request ? eventData.comment : undefined
+  if (!pullRequest && !comment) {
+    console.error(
+      "Not a pull_request event or a pull request comment. Exiting."
+    )
+    return true
   }
 
   // GITHUB_REPOSITORY is typically "owner/repo", e.g. "my-org/my-repo"
   const repoStr = process.env.GITHUB_REPOSITORY
   if (!repoStr) {
     console.error("No GITHUB_REPOSITORY found. Exiting.")
-    return
+    return true
   }
 
   const [owner, repo] = repoStr.split("/")
-  const prNumber = pullRequest.number
+  const prNumber = pullRequest ? pullRequest.number : eventData.issue.number
+
+  // We use Octokit to interact with GitHub (recorded or replayed when fixtures are enabled)
+  const octokit = withOctokitFixtures(new Octokit({ auth: githubToken }))
+
+  // The agent's code and the PR's code are separate checkouts (see .github/workflows/ai-agent.yml);
+  // AI_AGENT_WORKSPACE is the PR's, or "none" if the PR's code must not run here (e.g. a fork's PR)
+  const workspace = process.env.AI_AGENT_WORKSPACE
+  const checkedOut = workspace !== "none"
+  if (workspace && checkedOut) process.chdir(workspace)
+
+  // Load the repo's agent config; an invalid config fails the run with a clear PR comment.
+  // The security settings come from the base branch, so a PR can't loosen them for its own run
+  let config: AgentConfig
+  try {
+    const baseRef = pullRequest
+      ? pullRequest.base.ref
+      : (await octokit.pulls.get({ owner, repo, pull_number: prNumber })).data
+          .base.ref
+    const baseConfig = await loadBaseConfig(octokit, owner, repo, baseRef)
+    config = checkedOut
+      ? withTrustedSettings(loadAgentConfig(), baseConfig)
+      : withoutCheckout(baseConfig)
+  } catch (err: any) {
+    console.error(err.message)
+    await upsertComment(
+      octokit,
+      { owner, repo, pullNumber: prNumber, config: DEFAULT_AGENT_CONFIG },
+      "config",
+      `### AI Agent\n❌ The agent configuration is invalid, so the agent did not run.\n\n${err.message}`,
+      DEFAULT_AGENT_CONFIG.commentHistory
+    )
+    return false
+  }
+
+  if (comment) {
+    return runCommand(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      config,
+      checkedOut
+    )
+  }
+
+  // A PR labeled ai-agent:skip (e.g. with "/ai skip") only reacts to commands
+  if ((pullRequest.labels ?? []).some((l: any) => l.name === SKIP_LABEL)) {
+    console.log(`The PR has the "${SKIP_LABEL}" label. Exiting.`)
+    return true
+  }
 
-  // We use Octokit to interact with GitHub
-  const octokit = new Octokit({ auth: githubToken })
+  // Skip runs triggered by the agent's own commits, before spending any API calls or tokens on them
+  const decision = await decideRun(octokit, {
+    owner,
+    repo,
+    pullNumber: prNumber,
+    headSha: pullRequest.head.sha,
+    action: eventData.action,
+    config
+  })
+  if (decision.skip) {
+    return true
+  }
 
   // Step 1: Build a context object describing the PR (title, changed files, commit messages, etc.)
-  const baseContext = await buildPRContext(octokit, owner, repo, prNumber)
+  const baseContext = await buildPRContext(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    config
+  )
+  if (
+    eventData.action === "synchronize" &&
+    config.incrementalReview &&
+    config.steps.review
+  ) {
+    baseContext.incremental = await buildIncrementalReview(octokit, baseContext)
+  }
+
+  return runStepsWithChecks(
+    octokit,
+    baseContext,
+    checkedOut ? undefined : NO_CHECKOUT_REASON
+  )
+}
+
+/**
+ * runCommand:
+ * - Handles an "/ai" command from a PR comment: checks the commenter's permission, acknowledges
+ *   the command with a reaction, and runs just the requested stage.
+ * - Comments without a command, and comments by bots, are ignored.
+ */
+async function runCommand(
+  octokit: any,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  comment: any,
+  config: AgentConfig,
+  checkedOut = true
+): Promise<boolean> {
+  const command = parseSlashCommand(comment.body ?? "")
+  if (!command || comment.user?.type === "Bot") {
+    console.log("The comment has no /ai command. Exiting.")
+    return true
+  }
+  if (!isCommandAllowed(config, comment.author_association)) {
+    console.log(
+      `Ignoring the command from ${comment.user?.login} (${comment.author_association}): not in commands.allowedAssociations.`
+    )
+    await reactToComment(octokit, owner, repo, comment.id, "-1")
+    return true
+  }
+  await reactToComment(octokit, owner, repo, comment.id, "eyes")
+
+  const target = { owner, repo, pullNumber: prNumber }
+  if (!command.name) {
+    await createComment(octokit, target, formatCommandHelp())
+    await reactToComment(octokit, owner, repo, comment.id, "confused")
+    return true
+  }
+  console.log(`Running the "/ai ${command.name}" command`)
+
+  if (command.name === "skip") {
+    await octokit.issues.addLabels({
+      owner,
+      repo,
+      issue_number: prNumber,
+      labels: [SKIP_LABEL]
+    })
+    await reactToComment(octokit, owner, repo, comment.id, "+1")
+    return true
+  }
+
+  if (command.name === "explain") {
+    const context = await buildPRContext(octokit, owner, repo, prNumber, config)
+    // Like every prompt, the explanation's may not contain secrets
+    redactRunContext(context)
+    await handleExplainCommand(
+      octokit,
+      context,
+      command.args || "Explain the findings of the latest review."
+    )
+    await reactToComment(octokit, owner, repo, comment.id, "rocket")
+    return true
+  }
+
+  if (command.name === "fix" && !checkedOut) {
+    await createComment(
+      octokit,
+      target,
+      `### AI Agent\nThe tests can't run ${NO_CHECKOUT_REASON}.`
+    )
+    await reactToComment(octokit, owner, repo, comment.id, "confused")
+    return true
+  }
 
-  // Step 2: Create a placeholder "AI Code Review" comment to be updated
-  let reviewBody = "### AI Code Review\n_(initializing...)_"
-  const reviewCommentId = await createComment(octokit, baseContext, reviewBody)
+  const commandSteps = commandConfig(config, command.name)
+  const baseContext = await buildPRContext(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    checkedOut ? commandSteps : withoutCheckout(commandSteps)
+  )
+  if (command.name === "tests" && command.args) {
+    const paths = command.args.split(/\s+/)
+    baseContext.changedFiles = filterChangedFiles(
+      baseContext.changedFiles,
+      paths
+    )
+    if (baseContext.changedFiles.length === 0) {
+      await createComment(
+        octokit,
+        target,
+        `### AI Agent\nNone of the PR's changed files match ${paths.map(p => `\`${p}\``).join(", ")}.`
+      )
+      await reactToComment(octokit, owner, repo, comment.id, "confused")
+      return true
+    }
+  }
 
-  // Step 3: Call our code review logic, which updates the placeholder with actual data
-  const reviewAnalysis: ReviewAnalysis | undefined = await handleReviewAgent(
+  const passed = await runStepsWithChecks(
     octokit,
     baseContext,
-    reviewCommentId,
-    reviewBody
+    checkedOut ? `for \`/ai ${command.name}\`` : NO_CHECKOUT_REASON
   )
+  await reactToComment(
+    octokit,
+    owner,
+    repo,
+    comment.id,
+    passed ? "rocket" : "confused"
+  )
+  return passed
+}
 
-  // Step 4: Create a second placeholder comment for "AI Test Generation"
-  let testBody = "### AI Test Generation\n_(initializing...)_"
-  const testCommentId = await createComment(octokit, baseContext, testBody)
+// runAgentSteps, but checks still in progress are completed if the run crashes
+async function runStepsWithChecks(
+  octokit: any,
+  baseContext: PullRequestContext,
+  disabledReason?: string
+) {
+  try {
+    return await runAgentSteps(octokit, baseContext, disabledReason)
+  } catch (err: any) {
+    // Don't leave checks spinning forever when the run crashes
+    await completeOpenChecks(octokit, baseContext, {
+      conclusion: "failure",
+      title: "The agent run failed",
+      summary: `The agent stopped with an error:\n\n\`\`\`\n${err?.message ?? err}\n\`\`\``
+    })
+    throw err
+  }
+}
 
-  // Step 5: Build a test context (includes existing test files, etc.)
-  const testContext = await buildTestContext(octokit, baseContext)
+/**
+ * withoutCheckout:
+ * - The config for a run without the PR's code on the runner: nothing may run or type-check that code,
+ *   so the tests aren't run or fixed, and coverage and static checks are off.
+ */
+function withoutCheckout(config: AgentConfig): AgentConfig {
+  return {
+    ...config,
+    steps: { ...config.steps, testRun: false, testFix: false },
+    coverage: { ...config.coverage, enabled: false },
+    staticChecks: { ...config.staticChecks, enabled: false }
+  }
+}
 
-  // Step 6: Decide if test generation is needed (the "gating" step).
-  const gating = await gatingStep(
-    testContext,
+/**
+ * loadBaseConfig:
+ * - Reads the agent config from the PR's base branch through the API, since the checkout is the PR's head.
+ * - Returns the defaults if the base branch has no config file.
+ */
+async function loadBaseConfig(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  baseRef: string
+): Promise<AgentConfig> {
+  for (const configFile of AGENT_CONFIG_FILES) {
+    const raw = await getFileContent(octokit, owner, repo, configFile, baseRef)
+    if (raw !== undefined) return parseAgentConfig(configFile, raw)
+  }
+  return DEFAULT_AGENT_CONFIG
+}
+
+/**
+ * runLocalFlow is the entry point for the CLI's local mode.
+ * - Builds the context from a git range (e.g. "main..HEAD") in the current working tree.
+ * - Runs review, gating, generation and fix without talking to GitHub.
+ * - Prints the agent's comments to the terminal, or writes them to options.outputPath.
+ * - Returns whether the tests passed in the end.
+ */
+export async function runLocalFlow(options: {
+  range: string
+  outputPath?: string
+}): Promise<boolean> {
+  let config: AgentConfig
+  try {
+    config = loadAgentConfig()
+  } catch (err: any) {
+    console.error(`The agent configuration is invalid.\n${err.message}`)
+    return false
+  }
+
+  const baseContext = buildLocalPRContext(
+    options.range,
+    { outputPath: options.outputPath },
+    config
+  )
+
+  const passed = await runAgentSteps(undefined, baseContext)
+  flushLocalReport(baseContext)
+  return passed
+}
+
+/**
+ * runAgentSteps:
+ * - The part of the flow shared by the GitHub and local modes: review, gating, generation and the fix loop.
+ * - Steps disabled in the agent config (or by a command) are skipped; disabledReason says why in the comment.
+ * - Returns true if the tests pass at the end (or aren't run at all).
+ */
+async function runAgentSteps(
+  octokit: any,
+  baseContext: PullRequestContext,
+  disabledReason = "in the agent config"
+): Promise<boolean> {
+  const { steps } = baseContext.config
+  resetLedger()
+  resetChecks()
+
+  // Add the code around the changed files to the prompts, so the model sees the real APIs they use
+  if (baseContext.config.importGraph.enabled) {
+    try {
+      baseContext.relatedFiles = collectRelatedFiles(baseContext)
+    } catch (err) {
+      console.error("Error collecting the files related to the changes:", err)
+    }
+  }
+  // Nothing sensitive may reach a prompt (or the prompts printed to the log)
+  redactRunContext(baseContext)
+
+  // Appends the LLM usage summary to the last comment and writes the ledger report
+  const finish = async (passed: boolean, commentId?: number, body?: string) => {
+    if (commentId !== undefined && body !== undefined) {
+      body += "\n\n" + formatCostSummary(baseContext.config)
+      await updateComment(octokit, baseContext, commentId, body)
+    }
+    writeLedgerReport(baseContext.config)
+    return passed
+  }
+
+  // Someone pushed while we were working: stop without committing. Their push triggers
+  // a new run on the new head, so this one doesn't fail the check.
+  const stopOnBranchMoved = async (
+    err: BranchMovedError,
+    commentId: number,
+    body: string
+  ) => {
+    console.error(err.message)
+    await completeOpenChecks(octokit, baseContext, {
+      conclusion: "neutral",
+      title: "Stopped: the branch moved",
+      summary: err.message
+    })
+    return finish(true, commentId, `${body}\n\n⚠️ ${err.message}`)
+  }
+
+  // GitHub lists at most 3000 files of a PR, and some files may be missing their content;
+  // say so instead of silently reviewing part of it
+  const truncated = baseContext.filesTruncated
+  const skipped = baseContext.contentsSkipped
+  const truncationWarning =
+    (truncated
+      ? `\n\n⚠️ This PR changes ${truncated.total} files, but GitHub only lists the first ${truncated.listed}. The other ${truncated.total - truncated.listed} files were not reviewed or tested.`
+      : "") +
+    (skipped
+      ? `\n\n⚠️ The contents of ${skipped.count} changed files were not fetched${skipped.rateLimited ? " because GitHub's API rate limit was reached" : ""}. They were reviewed from their patches alone.`
+      : "")
+
+  let reviewAnalysis: ReviewAnalysis | undefined
+  let reviewComment: { id: number; body: string } | undefined
+  if (steps.review) {
+    // Step 2: Post a placeholder "AI Code Review" comment to be updated (or reuse the one from earlier runs)
+    let reviewBody = `### AI Code Review${truncationWarning}\n_(initializing...)_`
+    const reviewCommentId = await upsertComment(
+      octokit,
+      baseContext,
+      "review",
+      reviewBody,
+      baseContext.config.commentHistory
+    )
+
+    // Step 3: Call our code review logic, which updates the placeholder with actual data
+    await startCheck(octokit, baseContext, "review")
+    const review = await handleReviewAgent(
+      octokit,
+      baseContext,
+      reviewCommentId,
+      reviewBody
+    )
+    await completeCheck(
+      octokit,
+      baseContext,
+      "review",
+      reviewCheckResult(baseContext, review.analysis)
+    )
+    reviewAnalysis = review.analysis
+    reviewComment = { id: reviewCommentId, body: review.reviewBody }
+  }
+
+  if (!steps.testGeneration && !steps.testRun) {
+    return finish(true, reviewComment?.id, reviewComment?.body)
+  }
+
+  // Step 4: Post a second placeholder comment for "AI Test Generation"
+  let testBody = `### AI Test Generation${truncationWarning}\n_(initializing...)_`
+  const testCommentId = await upsertComment(
     octokit,
-    testCommentId,
+    baseContext,
+    "tests",
     testBody,
-    reviewAnalysis
+    baseContext.config.commentHistory
   )
 
+  if (steps.testGeneration) {
+    await startCheck(octokit, baseContext, "test-generation")
+  }
+
+  // Step 5: Build a test context (includes existing test files, etc.)
+  const testContext = baseContext.local
+    ? buildLocalTestContext(baseContext)
+    : await buildTestContext(octokit, baseContext)
+
+  // Step 6: Decide if test generation is needed (the "gating" step).
+  // Without gating we always generate; without generation there is nothing to decide.
+  const gating = !steps.testGeneration
+    ? {
+        shouldGenerate: false,
+        testBody: `${testBody}\n\nTest generation is disabled ${disabledReason}.`
+      }
+    : steps.gating
+      ? await gatingStep(
+          testContext,
+          octokit,
+          testCommentId,
+          testBody,
+          reviewAnalysis
+        )
+      : { shouldGenerate: true, testBody }
+
+  // The tests proposed so far; the fix loop builds on these
+  let proposals: TestProposal[] = []
+
   // If gating says we don't need tests, do not generate tests and skip to running tests
-  if (!gating.shouldGenerate) {
+  if (!gating.shouldGenerate && !steps.testGeneration) {
+    testBody = gating.testBody
+    await updateComment(octokit, baseContext, testCommentId, testBody)
+  } else if (!gating.shouldGenerate) {
     testBody = gating.testBody
     testBody +=
       "\n\nSkipping test generation as existing tests are sufficient. Running tests..."
     await updateComment(octokit, baseContext, testCommentId, testBody)
+    await completeCheck(octokit, baseContext, "test-generation", {
+      conclusion: "success",
+      title: "No new tests needed",
+      summary: gating.testBody
+    })
   } else {
     // If gating says we should proceed, we handle test generation
-    testBody = gating.testBody
-    await handleTestGeneration(
-      octokit,
-      testContext,
-      reviewAnalysis,
-      testCommentId,
-      testBody
-    )
+    try {
+      const generation = await handleTestGeneration(
+        octokit,
+        testContext,
+        reviewAnalysis,
+        testCommentId,
+        gating.testBody
+      )
+      proposals = generation.proposals
+      testBody = generation.testBody
+    } catch (err) {
+      if (!(err instanceof BranchMovedError)) throw err
+      return stopOnBranchMoved(err, testCommentId, gating.testBody)
+    }
+    await completeCheck(octokit, baseContext, "test-generation", {
+      conclusion: "success",
+      title: `${proposals.length} test file(s) proposed`,
+      summary: testBody
+    })
+  }
+
+  if (!steps.testRun) {
+    testBody += `\n\nRunning tests is disabled ${disabledReason}.`
+    return finish(true, testCommentId, testBody)
   }
 
   // Step 7: After generating tests, we run them locally to see if they pass.
-  let testResult = runLocalTests()
+  await startCheck(octokit, baseContext, "test-execution")
+  let testResult = await runLocalTests(
+    baseContext.config,
+    proposals,
+    selectTests(baseContext, proposals)
+  )
 
   // We allow up to maxIterations attempts to fix failing tests automatically
   let iteration = 0
-  const maxIterations = 3
+  const maxIterations = steps.testFix ? baseContext.config.maxIterations : 0
 
   while (testResult.jestFailed && iteration < maxIterations) {
+    // Stop spending on fixes once the run is over its LLM budget
+    const budgetExceeded = checkBudget(baseContext.config)
+    if (budgetExceeded) {
+      testBody += `\n\n⚠️ ${budgetExceeded} Skipping further fix attempts.`
+      break
+    }
+
     iteration++
-    testBody += `\n\n**Test Fix #${iteration}**\nTests are failing. Attempting a fix...`
+    const failedCount = getFailedTests(testResult).length
+    testBody += `\n\n**Test Fix #${iteration}**\n${failedCount} failing test(s). Attempting a fix...`
     await updateComment(octokit, baseContext, testCommentId, testBody)
 
-    // Attempt to fix the failing tests by generating new or updated test code
-    await handleTestFix(
-      octokit,
-      testContext,
-      iteration,
-      testResult.output,
-      testCommentId,
-      testBody
-    )
+    // Attempt to fix the failing tests with targeted edits to the failing test files
+    try {
+      const fix = await handleTestFix(
+        octokit,
+        testContext,
+        iteration,
+        testResult,
+        proposals,
+        testCommentId,
+        testBody
+      )
+      proposals = fix.proposals
+      testBody = fix.testBody
+    } catch (err) {
+      if (!(err instanceof BranchMovedError)) throw err
+      return stopOnBranchMoved(err, testCommentId, testBody)
+    }
 
     // Re-run tests after fix attempt
-    testResult = runLocalTests()
+    testResult = await runLocalTests(
+      baseContext.config,
+      proposals,
+      selectTests(baseContext, proposals)
+    )
+  }
+
+  // Confirm a run of the affected tests with one run of the full suite
+  if (shouldRunFullSuite(baseContext.config, testResult)) {
+    testBody += `\n\nAffected tests ${testResult.jestFailed ? "failing" : "passing"}. Running the full test suite...`
+    await updateComment(octokit, baseContext, testCommentId, testBody)
+    testResult = await runLocalTests(baseContext.config, proposals)
   }
 
+  const resultsTable = formatTestResultsTable(testResult)
+  testBody += "\n\n" + resultsTable
+
   // If eventually all tests pass, we celebrate
   if (!testResult.jestFailed) {
     testBody += "\n\n✅ All tests passing after AI generation/fixes!"
-    await updateComment(octokit, baseContext, testCommentId, testBody)
-    process.exit(0)
+    await completeCheck(octokit, baseContext, "test-execution", {
+      conclusion: "success",
+      title: "All tests passing",
+      summary: resultsTable
+    })
+    return finish(true, testCommentId, testBody)
   } else {
     // If we've run out of fix attempts and they still fail, we fail the action
-    testBody += `\n\n❌ Tests failing after ${maxIterations} fix attempts.`
-    await updateComment(octokit, baseContext, testCommentId, testBody)
-    process.exit(1)
+    testBody += `\n\n❌ Tests failing after ${iteration} fix attempts.`
+    await completeCheck(octokit, baseContext, "test-execution", {
+      conclusion: "failure",
+      title: `${getFailedTests(testResult).length} failing test(s) after ${iteration} fix attempt(s)`,
+      summary: resultsTable
+    })
+    return finish(false, testCommentId, testBody)
   }
 }
@@ -2,10 +2,90 @@
  * This module abstracts away creating and updating comments on the PR in GitHub.
  *
  * It is used by code-review.ts, flow-runner.ts, etc. to post or edit the AI Agent's messages.
+ * In local mode (context.local), comments are routed to local-report.ts instead of GitHub.
+ *
+ * The agent keeps one comment per kind (review, tests, ...) on a PR instead of posting new ones on every run:
+ * - Each comment carries a hidden marker for its kind, so upsertComment can find it again.
+ * - The previous run's content moves into a collapsed "Earlier runs" section below the marker.
+ * - Only the newest runs are kept (the config's commentHistory), and never more than fits in a comment:
+ *   the current run always fits, and is truncated only if it alone is over GitHub's limit.
+ *
+ * Anyone can type a hidden marker into a PR comment, so markers are only trusted in comments
+ * the agent's own account posted (see isAgentComment).
  */
 
+import { AgentConfig } from "./agent-config"
+import { createLocalComment, updateLocalComment } from "./local-report"
 import { PullRequestContext } from "./pr-context"
 
+/**
+ * The agent's comments; a PR has at most one of each.
+ */
+export type CommentKind = "review" | "tests" | "config"
+
+// Separates the history entries below the comment marker
+const HISTORY_ENTRY_MARKER = "<!-- ai-agent:history -->"
+
+// GitHub rejects comments over 65536 characters
+const MAX_COMMENT_LENGTH = 65536
+
+const TRUNCATION_NOTICE =
+  "\n\n_…truncated: this comment exceeded GitHub's size limit._"
+
+// The marker and earlier runs appended to a comment on every update, by comment ID
+const commentHistories = new Map<
+  number,
+  { marker: string; history: string[] }
+>()
+
+type CommentTarget = Pick<
+  PullRequestContext,
+  "owner" | "repo" | "pullNumber" | "local"
+>
+
+// A GitHub account as the REST API returns it on comments and commits
+type GitHubUser = { login?: string; type?: string } | null | undefined
+
+// The account the workflow's GITHUB_TOKEN comments and commits as
+export const ACTIONS_BOT_LOGIN = "github-actions[bot]"
+
+/**
+ * isAgentAccount:
+ * - True for the accounts the agent comments and commits as: the Actions bot (the default token),
+ *   or a login listed in the config's loopPrevention.authors (e.g. a GitHub App's bot, or the user behind a PAT).
+ * - Other bots (Dependabot, Renovate, ...) don't count: anyone can make them post a comment.
+ */
+export function isAgentAccount(user: GitHubUser, config: AgentConfig) {
+  if (!user?.login) return false
+  // GraphQL leaves the "[bot]" suffix off a bot's login
+  const login =
+    user.type === "Bot" && !user.login.endsWith("[bot]")
+      ? `${user.login}[bot]`
+      : user.login
+  return (
+    login === ACTIONS_BOT_LOGIN || config.loopPrevention.authors.includes(login)
+  )
+}
+
+/**
+ * isAgentComment:
+ * - True if the comment was posted by the agent's account, so its hidden markers can be trusted.
+ */
+export function isAgentComment(
+  comment: { user?: GitHubUser },
+  config: AgentConfig
+) {
+  return isAgentAccount(comment.user, config)
+}
+
+/**
+ * formatCommentMarker:
+ * - The hidden marker that identifies the agent's comment of the given kind.
+ */
+export function formatCommentMarker(kind: CommentKind) {
+  return `<!-- ai-agent:comment ${kind} -->`
+}
+
 /**
  * createComment:
  * - Creates a brand new comment on the pull request (under the AI account).
@@ -13,9 +93,12 @@ import { PullRequestContext } from "./pr-context"
  */
 export async function createComment(
   octokit: any,
-  context: PullRequestContext,
+  context: CommentTarget,
   body: string
 ): Promise<number> {
+  if (context.local) {
+    return createLocalComment(context, body)
+  }
   const { data } = await octokit.issues.createComment({
     owner: context.owner,
     repo: context.repo,
@@ -25,21 +108,142 @@ export async function createComment(
   return data.id
 }
 
+/**
+ * upsertComment:
+ * - Finds the agent's existing comment of this kind and replaces its content with body,
+ *   moving the old content into the comment's history; creates the comment if there is none.
+ * - Only the agent's own comments are considered; a copied marker in someone else's comment is ignored.
+ * - keepRuns is how many earlier runs the history keeps (0 keeps none).
+ * - Returns the comment ID; later updateComment calls keep the marker and history.
+ */
+export async function upsertComment(
+  octokit: any,
+  context: CommentTarget & Pick<PullRequestContext, "config">,
+  kind: CommentKind,
+  body: string,
+  keepRuns: number
+): Promise<number> {
+  if (context.local) {
+    return createLocalComment(context, body)
+  }
+
+  const marker = formatCommentMarker(kind)
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner: context.owner,
+    repo: context.repo,
+    issue_number: context.pullNumber,
+    per_page: 100
+  })
+  const existing = comments
+    .filter(
+      (c: any) =>
+        isAgentComment(c, context.config) && (c.body ?? "").includes(marker)
+    )
+    .pop()
+
+  if (!existing) {
+    const id = await createComment(octokit, context, fitComment(body, marker))
+    commentHistories.set(id, { marker, history: [] })
+    return id
+  }
+
+  const previous = parseComment(existing.body, marker)
+  const entries = [
+    `**Run updated ${existing.updated_at ?? existing.created_at}**\n\n${previous.current}`,
+    ...previous.history
+  ]
+  commentHistories.set(existing.id, {
+    marker,
+    history: entries.slice(0, keepRuns)
+  })
+  await updateComment(octokit, context, existing.id, body)
+  return existing.id
+}
+
 /**
  * updateComment:
  * - Replaces the body of an existing comment with new content.
  * - We pass the comment's ID, then provide the updated text in "body".
+ * - For comments from upsertComment, the marker and as much history as fits are kept below the new content.
  */
 export async function updateComment(
   octokit: any,
-  context: PullRequestContext,
+  context: CommentTarget,
   commentId: number,
   body: string
 ) {
+  if (context.local) {
+    updateLocalComment(context, commentId, body)
+    return
+  }
+  const saved = commentHistories.get(commentId)
   await octokit.issues.updateComment({
     owner: context.owner,
     repo: context.repo,
     comment_id: commentId,
-    body
+    body: fitComment(body, saved?.marker, saved?.history)
   })
 }
+
+/**
+ * parseComment:
+ * - Splits an agent comment into the current run's content and the earlier runs, newest first.
+ */
+export function parseComment(
+  body: string,
+  marker: string
+): { current: string; history: string[] } {
+  const index = body.indexOf(marker)
+  if (index === -1) return { current: body.trim(), history: [] }
+
+  // Drop the closing tag of the history section itself; entries can contain <details> of their own
+  const rest = body
+    .slice(index + marker.length)
+    .replace(/\s*<\/details>\s*$/, "")
+  return {
+    current: body.slice(0, index).trim(),
+    history: rest
+      .split(HISTORY_ENTRY_MARKER)
+      .slice(1)
+      .map(e => e.trim())
+      .filter(Boolean)
+  }
+}
+
+/**
+ * fitComment:
+ * - Appends the marker and the newest earlier runs that fit in GitHub's comment size limit.
+ * - A body too large on its own is truncated, leaving room for the marker.
+ */
+export function fitComment(
+  body: string,
+  marker?: string,
+  history: string[] = []
+) {
+  const minimalFooter = buildFooter(marker, [])
+  if (body.length + minimalFooter.length > MAX_COMMENT_LENGTH) {
+    const room =
+      MAX_COMMENT_LENGTH - minimalFooter.length - TRUNCATION_NOTICE.length
+    body = body.slice(0, room) + TRUNCATION_NOTICE
+  }
+
+  // The budget for the history is whatever the current run leaves
+  const kept = [...history]
+  let footer = buildFooter(marker, kept)
+  while (kept.length > 0 && body.length + footer.length > MAX_COMMENT_LENGTH) {
+    kept.pop()
+    footer = buildFooter(marker, kept)
+  }
+  return body + footer
+}
+
+function buildFooter(marker: string | undefined, history: string[]) {
+  if (!marker) return ""
+  if (history.length === 0) return `\n\n${marker}`
+  return [
+    `\n\n${marker}`,
+    `<details><summary>🕓 Earlier runs (${history.length})</summary>`,
+    ...history.map(e => `${HISTORY_ENTRY_MARKER}\n${e}`),
+    "</details>"
+  ].join("\n\n")
+}
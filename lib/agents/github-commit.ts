@@ -0,0 +1,153 @@
+/**
+ * This module commits a set of file changes to a branch as one commit, using the Git Data API
+ * (blobs -> tree -> commit -> ref) instead of one Contents API call (and one commit) per file.
+ *
+ * - One commit means the pull_request workflow is triggered once, and the branch is never half-updated:
+ *   if anything fails before the ref update, the branch is untouched.
+ * - The ref is only moved if the branch is still at the commit we expect (optimistic concurrency).
+ *   If the author pushed in the meantime, we throw a BranchMovedError instead of overwriting their work.
+ * - Every commit carries the AGENT_COMMIT_TRAILER, so the run it triggers can recognize it (see loop-guard.ts).
+ */
+
+export const AGENT_COMMIT_TRAILER = "Generated-by: ai-agent"
+
+/**
+ * A change to a single file; a change without content deletes the file.
+ */
+export interface FileChange {
+  path: string
+  content?: string
+}
+
+/**
+ * Thrown when the branch is no longer at the commit the agent worked from.
+ */
+export class BranchMovedError extends Error {
+  constructor(
+    public branch: string,
+    public expectedSha: string,
+    public actualSha?: string
+  ) {
+    super(
+      `The branch "${branch}" moved while the agent was running (expected ${expectedSha.slice(0, 7)}${
+        actualSha ? `, found ${actualSha.slice(0, 7)}` : ""
+      }). Someone pushed to it in the meantime, so the agent did not commit; it will run again on the new head.`
+    )
+    this.name = "BranchMovedError"
+  }
+}
+
+/**
+ * commitFiles:
+ * - Checks that the branch is still at expectedHeadSha.
+ * - Creates a blob per changed file and one tree on top of the head commit's tree.
+ * - Creates a single commit and fast-forwards the branch to it (never forced).
+ * - Returns the SHA of the new commit.
+ */
+export async function commitFiles(
+  octokit: any,
+  options: {
+    owner: string
+    repo: string
+    branch: string
+    expectedHeadSha: string
+    message: string
+    changes: FileChange[]
+  }
+): Promise<string> {
+  const { owner, repo, branch, expectedHeadSha, message, changes } = options
+
+  const { data: ref } = await octokit.git.getRef({
+    owner,
+    repo,
+    ref: `heads/${branch}`
+  })
+  if (ref.object.sha !== expectedHeadSha) {
+    throw new BranchMovedError(branch, expectedHeadSha, ref.object.sha)
+  }
+
+  const { data: headCommit } = await octokit.git.getCommit({
+    owner,
+    repo,
+    commit_sha: expectedHeadSha
+  })
+
+  const tree = []
+  for (const change of changes) {
+    if (change.content === undefined) {
+      // Deleting a path that isn't in the tree makes GitHub reject the whole tree
+      if (
+        await fileExists(octokit, owner, repo, change.path, expectedHeadSha)
+      ) {
+        tree.push({
+          path: change.path,
+          mode: "100644",
+          type: "blob",
+          sha: null
+        })
+      }
+      continue
+    }
+    const { data: blob } = await octokit.git.createBlob({
+      owner,
+      repo,
+      content: Buffer.from(change.content, "utf8").toString("base64"),
+      encoding: "base64"
+    })
+    tree.push({
+      path: change.path,
+      mode: "100644",
+      type: "blob",
+      sha: blob.sha
+    })
+  }
+
+  const { data: newTree } = await octokit.git.createTree({
+    owner,
+    repo,
+    base_tree: headCommit.tree.sha,
+    tree
+  })
+
+  const { data: commit } = await octokit.git.createCommit({
+    owner,
+    repo,
+    message: `${message}\n\n${AGENT_COMMIT_TRAILER}`,
+    tree: newTree.sha,
+    parents: [expectedHeadSha]
+  })
+
+  try {
+    await octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha: commit.sha,
+      force: false
+    })
+  } catch (err: any) {
+    // 422 "Update is not a fast forward": the branch moved between our check and the update
+    if (err.status === 422) {
+      throw new BranchMovedError(branch, expectedHeadSha)
+    }
+    throw err
+  }
+
+  return commit.sha
+}
+
+async function fileExists(
+  octokit: any,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+) {
+  try {
+    await octokit.repos.getContent({ owner, repo, path, ref })
+    return true
+  } catch (err: any) {
+    if (err.status === 404) return false
+    throw err
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * This module adds the code around the changed files to the prompts: the files they import
+ * (dependencies) and the files that import them (dependents).
+ *
+ * - Imports are read with the TypeScript compiler API and resolved with the repo's tsconfig.json,
+ *   so path aliases like "@/components/ui/button" resolve the same way they do in the build.
+ * - Only direct neighbours are included, and only files inside the repo (never node_modules).
+ * - Small files are included in full; larger ones as signatures (exported declarations without bodies).
+ * - Everything stays within the config's importGraph.maxTokens; dependencies come before dependents,
+ *   since they are what generated tests call into.
+ * - Files excluded from prompts by the config stay excluded here too.
+ */
+
+import fs from "fs"
+import path from "path"
+import ts from "typescript"
+import { getPathSettings } from "./agent-config"
+import { estimateTokens } from "./code-review"
+import { PullRequestContext } from "./pr-context"
+import { wrapUntrusted } from "./prompt-safety"
+
+const SOURCE_FILE_PATTERN = /\.(tsx?|jsx?|mts|cts)$/
+
+/**
+ * A file related to the changed files.
+ * - relation: "dependency" if a changed file imports it, "dependent" if it imports a changed file.
+ * - signaturesOnly: content holds only the exported signatures, because the full file was too large.
+ */
+export interface RelatedFile {
+  filename: string
+  relation: "dependency" | "dependent"
+  content: string
+  signaturesOnly: boolean
+}
+
+/**
+ * collectRelatedFiles:
+ * - Finds the direct dependencies and dependents of the changed files in the working tree at cwd.
+ * - Returns them in order (dependencies first) until the token budget is used up;
+ *   files over fullContentTokens, or over what's left of the budget, are reduced to their signatures.
+ */
+export function collectRelatedFiles(
+  context: PullRequestContext,
+  cwd = process.cwd()
+): RelatedFile[] {
+  const { maxTokens, fullContentTokens, dependents } =
+    context.config.importGraph
+  const project = loadProject(cwd)
+  const changed = new Set(
+    context.changedFiles
+      .filter(f => f.status !== "removed")
+      .map(f => f.filename)
+  )
+
+  const candidates: { filename: string; relation: RelatedFile["relation"] }[] =
+    []
+  const seen = new Set(changed)
+  const add = (filename: string, relation: RelatedFile["relation"]) => {
+    if (seen.has(filename)) return
+    seen.add(filename)
+    candidates.push({ filename, relation })
+  }
+
+  for (const filename of changed) {
+    if (!SOURCE_FILE_PATTERN.test(filename)) continue
+    for (const dependency of resolveImports(project, filename)) {
+      add(dependency, "dependency")
+    }
+  }
+  if (dependents) {
+    for (const filename of project.fileNames) {
+      if (changed.has(filename)) continue
+      if (resolveImports(project, filename).some(d => changed.has(d))) {
+        add(filename, "dependent")
+      }
+    }
+  }
+
+  const related: RelatedFile[] = []
+  let budget = maxTokens
+  for (const candidate of candidates) {
+    const settings = getPathSettings(context.config, candidate.filename)
+    if (settings.exclude) continue
+    const source = readFile(cwd, candidate.filename)
+    if (source === undefined || source.length > settings.maxFileSize) continue
+
+    let file: RelatedFile = {
+      ...candidate,
+      content: source,
+      signaturesOnly: false
+    }
+    if (estimateTokens(source) > Math.min(fullContentTokens, budget)) {
+      file = {
+        ...candidate,
+        content: extractSignatures(candidate.filename, source),
+        signaturesOnly: true
+      }
+    }
+    const tokens = estimateTokens(file.content)
+    if (!file.content.trim() || tokens > budget) continue
+    related.push(file)
+    budget -= tokens
+  }
+  return related
+}
+
+/**
+ * formatRelatedFiles:
+ * - Renders the related files for a prompt, or an empty string if there are none.
+ */
+export function formatRelatedFiles(related: RelatedFile[] | undefined) {
+  if (!related || related.length === 0) return ""
+  const blocks = related.map(f => {
+    const how =
+      f.relation === "dependency"
+        ? "imported by the changed files"
+        : "imports the changed files"
+    const what = f.signaturesOnly ? "signatures only" : "full content"
+    return `File: ${f.filename} (${how}; ${what})\n${f.content}`
+  })
+  return `Related files (not changed in this PR; use them to see the real APIs, don't review them):
+${wrapUntrusted("related-files", blocks.join("\n---\n"))}
+`
+}
+
+/**
+ * extractSignatures:
+ * - Reduces a module to its exported declarations: types and interfaces in full,
+ *   functions, classes and variables without their bodies or initializers.
+ */
+export function extractSignatures(filename: string, source: string): string {
+  const sourceFile = ts.createSourceFile(
+    filename,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    filename.endsWith("x") ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  )
+  const text = (from: number, to: number) => source.slice(from, to).trim()
+  const signatures: string[] = []
+
+  for (const statement of sourceFile.statements) {
+    const exported =
+      ts.isExportAssignment(statement) ||
+      ts.isExportDeclaration(statement) ||
+      (ts.canHaveModifiers(statement) &&
+        ts
+          .getModifiers(statement)
+          ?.some(m => m.kind === ts.SyntaxKind.ExportKeyword))
+    if (!exported) continue
+    const start = statement.getStart(sourceFile)
+
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+      signatures.push(text(start, statement.body.getStart(sourceFile)))
+    } else if (ts.isClassDeclaration(statement)) {
+      const header = text(start, statement.members.pos).replace(/\{$/, "")
+      const members = statement.members
+        .filter(
+          m =>
+            !(
+              ts.getCombinedModifierFlags(m as ts.Declaration) &
+              ts.ModifierFlags.Private
+            )
+        )
+        .map(m => {
+          const body = (m as ts.FunctionLikeDeclaration).body
+          const end = body ? body.getStart(sourceFile) : m.end
+          return `  ${text(m.getStart(sourceFile), end)}`
+        })
+      signatures.push(`${header.trim()} {\n${members.join("\n")}\n}`)
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        signatures.push(
+          `export const ${formatVariableSignature(declaration, sourceFile)}`
+        )
+      }
+    } else {
+      // Types, interfaces, enums and re-exports are signatures already
+      signatures.push(text(start, statement.end))
+    }
+  }
+  return signatures.join("\n")
+}
+
+function formatVariableSignature(
+  declaration: ts.VariableDeclaration,
+  sourceFile: ts.SourceFile
+) {
+  const name = declaration.name.getText(sourceFile)
+  if (declaration.type)
+    return `${name}: ${declaration.type.getText(sourceFile)}`
+  const init = declaration.initializer
+  if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+    const params = init.parameters.map(p => p.getText(sourceFile)).join(", ")
+    const returns = init.type ? `: ${init.type.getText(sourceFile)}` : ""
+    return `${name} = (${params})${returns} => ...`
+  }
+  return `${name} = ...`
+}
+
+interface Project {
+  cwd: string
+  options: ts.CompilerOptions
+  fileNames: string[]
+  cache: ts.ModuleResolutionCache
+}
+
+/**
+ * readTsConfig:
+ * - Reads the tsconfig.json in cwd with the compiler's own parser (comments allowed, "extends" followed).
+ * - Returns its compiler options and the absolute paths of the files it includes;
+ *   without a tsconfig.json, default options and no files.
+ */
+export function readTsConfig(cwd: string): {
+  options: ts.CompilerOptions
+  fileNames: string[]
+} {
+  const configPath = ts.findConfigFile(cwd, ts.sys.fileExists)
+  if (!configPath || path.dirname(configPath) !== cwd) {
+    return {
+      options: { allowJs: true, jsx: ts.JsxEmit.Preserve },
+      fileNames: []
+    }
+  }
+  const { config } = ts.readConfigFile(configPath, ts.sys.readFile)
+  const parsed = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, cwd)
+  return { options: parsed.options, fileNames: parsed.fileNames }
+}
+
+// Reads tsconfig.json and lists the project's source files, relative to cwd
+function loadProject(cwd: string): Project {
+  const { options, fileNames } = readTsConfig(cwd)
+  return {
+    cwd,
+    options,
+    fileNames: fileNames
+      .map(f => path.relative(cwd, f).split(path.sep).join("/"))
+      .filter(f => !f.startsWith("..") && !f.endsWith(".d.ts")),
+    cache: ts.createModuleResolutionCache(cwd, f => f, options)
+  }
+}
+
+// The repo files (relative to cwd) that a file imports directly
+function resolveImports(project: Project, filename: string): string[] {
+  const source = readFile(project.cwd, filename)
+  if (source === undefined) return []
+  const containingFile = path.join(project.cwd, filename)
+  const { importedFiles } = ts.preProcessFile(source, true, true)
+
+  const resolved: string[] = []
+  for (const imported of importedFiles) {
+    const { resolvedModule } = ts.resolveModuleName(
+      imported.fileName,
+      containingFile,
+      project.options,
+      ts.sys,
+      project.cache
+    )
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) continue
+    const relative = path
+      .relative(project.cwd, resolvedModule.resolvedFileName)
+      .split(path.sep)
+      .join("/")
+    if (relative.startsWith("..") || relative.includes("node_modules/")) {
+      continue
+    }
+    if (relative.endsWith(".d.ts") || !SOURCE_FILE_PATTERN.test(relative)) {
+      continue
+    }
+    resolved.push(relative)
+  }
+  return resolved
+}
+
+function readFile(cwd: string, filename: string) {
+  try {
+    return fs.readFileSync(path.join(cwd, filename), "utf8")
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * This module lets a review on a new push focus on what changed since the agent's last review.
+ *
+ * - Every review comment carries a hidden marker with the head SHA it reviewed. Only markers in the agent's
+ *   own comments count, so nobody can skip the review of their changes by pasting a marker.
+ * - On "synchronize", buildIncrementalReview finds the latest marker and diffs lastSha...head through
+ *   the compare API. The review prompt then only gets the files and commits pushed since.
+ * - Findings the agent posted earlier whose review threads are still unresolved are passed along,
+ *   so the new review can refer to them instead of starting from scratch.
+ * - If there is no marker, or the old head is no longer an ancestor (force-push or rebase),
+ *   we fall back to reviewing the whole PR.
+ */
+
+import { isAgentComment } from "./github-comments"
+import { PullRequestContext } from "./pr-context"
+
+const REVIEWED_MARKER_PATTERN = /<!-- ai-agent:reviewed ([0-9a-f]{7,40}) -->/
+
+// Added to every inline finding the agent posts, so we can tell its threads apart from humans'
+export const FINDING_MARKER = "<!-- ai-agent:finding -->"
+
+/**
+ * A finding from an earlier review whose thread hasn't been resolved yet.
+ */
+export interface OpenFinding {
+  path: string
+  line?: number
+  message: string
+  url?: string
+}
+
+/**
+ * What an incremental review looks at.
+ * - sinceSha: the head SHA of the last review.
+ * - changedFiles / commitMessages: only the changes pushed since then.
+ * - openFindings: the agent's earlier findings that are still unresolved.
+ */
+export interface IncrementalReview {
+  sinceSha: string
+  changedFiles: PullRequestContext["changedFiles"]
+  commitMessages: string[]
+  openFindings: OpenFinding[]
+}
+
+/**
+ * formatReviewedMarker:
+ * - The hidden marker we put in the review comment for the head SHA it reviewed.
+ */
+export function formatReviewedMarker(sha: string) {
+  return `<!-- ai-agent:reviewed ${sha} -->`
+}
+
+/**
+ * findLastReviewedSha:
+ * - Returns the SHA from the most recent reviewed marker in the agent's PR comments, if any.
+ * - A crashed run leaves no marker in its comment; then the last completed review in its history counts.
+ */
+export async function findLastReviewedSha(
+  octokit: any,
+  context: PullRequestContext
+): Promise<string | undefined> {
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner: context.owner,
+    repo: context.repo,
+    issue_number: context.pullNumber,
+    per_page: 100
+  })
+  let lastSha: string | undefined
+  for (const comment of comments) {
+    if (!isAgentComment(comment, context.config)) continue
+    // The current run comes first in a comment, before the history of earlier runs
+    const match = (comment.body ?? "").match(REVIEWED_MARKER_PATTERN)
+    if (match) lastSha = match[1]
+  }
+  return lastSha
+}
+
+/**
+ * buildIncrementalReview:
+ * - Returns the changes since the last reviewed head, or undefined if the whole PR should be reviewed.
+ * - File contents are taken from the full PR context, which was fetched at the same head.
+ */
+export async function buildIncrementalReview(
+  octokit: any,
+  context: PullRequestContext
+): Promise<IncrementalReview | undefined> {
+  const sinceSha = await findLastReviewedSha(octokit, context)
+  if (!sinceSha) {
+    console.log(
+      "Incremental review: no earlier review found, reviewing the whole PR"
+    )
+    return undefined
+  }
+  if (context.headSha.startsWith(sinceSha)) {
+    console.log(
+      "Incremental review: head was already reviewed, reviewing the whole PR"
+    )
+    return undefined
+  }
+
+  let comparison: any
+  try {
+    const res = await octokit.repos.compareCommitsWithBasehead({
+      owner: context.owner,
+      repo: context.repo,
+      basehead: `${sinceSha}...${context.headSha}`
+    })
+    comparison = res.data
+  } catch (err: any) {
+    // 404: the old head is gone, e.g. after a force-push and garbage collection
+    if (err.status !== 404) throw err
+    console.log(
+      `Incremental review: ${sinceSha.slice(0, 7)} no longer exists, reviewing the whole PR`
+    )
+    return undefined
+  }
+  if (comparison.status !== "ahead") {
+    console.log(
+      `Incremental review: head is ${comparison.status} of ${sinceSha.slice(0, 7)} (force-push or rebase?), reviewing the whole PR`
+    )
+    return undefined
+  }
+
+  const changedFiles = (comparison.files ?? []).map((file: any) => {
+    const prFile = context.changedFiles.find(f => f.filename === file.filename)
+    return {
+      filename: file.filename,
+      patch: file.patch ?? "",
+      status: file.status || "",
+      additions: file.additions || 0,
+      deletions: file.deletions || 0,
+      content: prFile?.content,
+      previousFilename: file.previous_filename,
+      // Excluded in the PR context, or back to its base version (and so no longer in the PR's diff)
+      excluded: !prFile || !!prFile.excluded
+    }
+  })
+
+  if (changedFiles.length === 0) {
+    console.log(
+      `Incremental review: no files changed since ${sinceSha.slice(0, 7)}, reviewing the whole PR`
+    )
+    return undefined
+  }
+
+  return {
+    sinceSha,
+    changedFiles,
+    commitMessages: (comparison.commits ?? []).map(
+      (c: any) => c.commit.message
+    ),
+    openFindings: await getOpenFindings(octokit, context)
+  }
+}
+
+/**
+ * getOpenFindings:
+ * - Lists the review threads the agent's account started that nobody has resolved yet.
+ * - Resolution state is only exposed through GraphQL.
+ */
+async function getOpenFindings(
+  octokit: any,
+  context: PullRequestContext
+): Promise<OpenFinding[]> {
+  const result = await octokit.graphql(
+    `query($owner: String!, $repo: String!, $number: Int!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          reviewThreads(first: 100) {
+            nodes {
+              isResolved
+              path
+              line
+              comments(first: 1) {
+                nodes {
+                  body
+                  url
+                  author {
+                    __typename
+                    login
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }`,
+    { owner: context.owner, repo: context.repo, number: context.pullNumber }
+  )
+
+  const threads = result.repository.pullRequest.reviewThreads.nodes ?? []
+  const findings: OpenFinding[] = []
+  for (const thread of threads) {
+    const comment = thread.comments.nodes[0]
+    if (thread.isResolved || !comment?.body?.includes(FINDING_MARKER)) continue
+    // GraphQL names the account type "__typename"; the REST API calls it "type"
+    const user = comment.author && {
+      login: comment.author.login,
+      type: comment.author.__typename
+    }
+    if (!isAgentComment({ user }, context.config)) continue
+    findings.push({
+      path: thread.path,
+      // null once the thread is outdated (its line is no longer in the diff)
+      line: thread.line ?? undefined,
+      message: comment.body.split("\n")[0].replace(FINDING_MARKER, "").trim(),
+      url: comment.url
+    })
+  }
+  return findings
+}
+
+/**
+ * formatOpenFindings:
+ * - Renders the open findings as a Markdown list, linking each to its thread when we have the URL.
+ */
+export function formatOpenFindings(findings: OpenFinding[]): string {
+  return findings
+    .map(f => {
+      const location = `${f.path}${f.line ? `:${f.line}` : ""}`
+      const label = f.url ? `[${location}](${f.url})` : location
+      return `- **${label}** ${f.message}`
+    })
+    .join("\n")
+}
@@ -1,44 +1,206 @@
 /**
- * This module determines which LLM provider to use (OpenAI or Anthropic),
- * and returns a function that can be used to call the model with a prompt.
+ * This module determines which LLM provider to use for each agent step,
+ * and returns the model (plus call settings) that can be used to call the model with a prompt.
+ *
+ * Providers live in a registry. Built in are:
+ * - "openai" and "anthropic": the hosted APIs.
+ * - "openai-compatible": any OpenAI-compatible base URL (Ollama, vLLM, LM Studio, ...),
+ *   with "ollama", "vllm" and "lmstudio" as shortcuts that default to their usual local URLs.
+ * - "fake": a deterministic in-process provider (see fake-llm.ts) for air-gapped runs and tests.
+ *
+ * Settings are read from environment variables. Each one can be overridden per agent step by
+ * inserting the step name, e.g. LLM_REVIEW_MODEL or LLM_FIX_TEMPERATURE.
+ * Like the agent config (see agent-config.ts), they are validated with zod, so a typo fails the run
+ * instead of silently becoming NaN.
  */
 
 import { createAnthropic } from "@ai-sdk/anthropic"
 import { createOpenAI } from "@ai-sdk/openai"
+import { LanguageModelV1 } from "@ai-sdk/provider"
+import { z } from "zod"
+import { createFakeLanguageModel } from "./fake-llm"
+import { withLLMFixtures } from "./record-replay"
+import { withUsageTracking } from "./run-ledger"
+
+// The agent steps that call the LLM; each can use its own provider and settings
+export type AgentStep =
+  | "review"
+  | "gating"
+  | "proposals"
+  | "repair"
+  | "fix"
+  | "explain"
 
 /**
- * getLLMModel:
- * - Looks at environment variables to see which provider is chosen: 'openai' or 'anthropic'.
- * - Creates a model function from the respective AI SDK.
- * - If the environment variables (like API keys) are missing, it throws an error.
- * - The returned function is used by other modules (e.g., code-review.ts) to call the LLM with a prompt.
+ * The settings for one LLM call.
+ * - provider: a name from the registry, e.g. "openai" or "ollama".
+ * - model: the model name; each provider has a default.
+ * - baseURL/apiKey: mostly for OpenAI-compatible endpoints.
  */
-export function getLLMModel() {
-  // Defaults to "openai" if no LLM_PROVIDER specified
-  const provider = process.env.LLM_PROVIDER || "openai"
+export interface LLMSettings {
+  provider: string
+  model?: string
+  baseURL?: string
+  apiKey?: string
+  temperature?: number
+  maxTokens?: number
+}
 
-  // Default model names if none are provided by environment
-  const openAIDefaultModel = "o3-mini"
-  const anthropicDefaultModel = "claude-3-5-sonnet-latest"
+// How each setting is validated; numbers are coerced from the environment strings
+const llmSettingsSchema = z.object({
+  provider: z.string().default("openai"),
+  model: z.string().optional(),
+  baseURL: z.string().optional(),
+  apiKey: z.string().optional(),
+  temperature: z.coerce.number().min(0).optional(),
+  maxTokens: z.coerce.number().int().positive().optional()
+})
 
-  if (provider === "anthropic") {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error("Missing ANTHROPIC_API_KEY for Anthropic usage.")
-    }
-    const anthropic = createAnthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY
-    })
-    return anthropic(process.env.LLM_MODEL || anthropicDefaultModel)
-  }
+// The environment variable suffix of each setting, e.g. LLM_MAX_TOKENS or LLM_FIX_MAX_TOKENS
+const SETTING_VARIABLES: Record<keyof LLMSettings, string> = {
+  provider: "PROVIDER",
+  model: "MODEL",
+  baseURL: "BASE_URL",
+  apiKey: "API_KEY",
+  temperature: "TEMPERATURE",
+  maxTokens: "MAX_TOKENS"
+}
+
+// A provider turns settings into a model the AI SDK can call
+export type LLMProviderFactory = (settings: LLMSettings) => LanguageModelV1
+
+const providers = new Map<string, LLMProviderFactory>()
+
+/**
+ * registerLLMProvider:
+ * - Adds (or replaces) a provider in the registry, so it can be selected with LLM_PROVIDER.
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory) {
+  providers.set(name, factory)
+}
 
-  // Fallback: default to OpenAI
-  if (!process.env.OPENAI_API_KEY) {
+registerLLMProvider("openai", settings => {
+  const apiKey = settings.apiKey || process.env.OPENAI_API_KEY
+  if (!apiKey) {
     throw new Error("Missing OPENAI_API_KEY for OpenAI usage.")
   }
-
   const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
+    apiKey,
+    baseURL: settings.baseURL,
     compatibility: "strict"
   })
-  return openai(process.env.LLM_MODEL || openAIDefaultModel)
+  return openai(settings.model || "o3-mini")
+})
+
+registerLLMProvider("anthropic", settings => {
+  const apiKey = settings.apiKey || process.env.ANTHROPIC_API_KEY
+  if (!apiKey) {
+    throw new Error("Missing ANTHROPIC_API_KEY for Anthropic usage.")
+  }
+  const anthropic = createAnthropic({ apiKey, baseURL: settings.baseURL })
+  return anthropic(settings.model || "claude-3-5-sonnet-latest")
+})
+
+registerLLMProvider("openai-compatible", settings => {
+  if (!settings.baseURL) {
+    throw new Error("Missing LLM_BASE_URL for an OpenAI-compatible provider.")
+  }
+  if (!settings.model) {
+    throw new Error("Missing LLM_MODEL for an OpenAI-compatible provider.")
+  }
+  const compatible = createOpenAI({
+    baseURL: settings.baseURL,
+    // Local servers usually ignore the key, but the client requires one
+    apiKey: settings.apiKey || "not-needed",
+    compatibility: "compatible",
+    name: "openai-compatible"
+  })
+  return compatible(settings.model)
+})
+
+// Shortcuts for common local servers, pointing at their default URLs
+const LOCAL_SERVER_URLS: Record<string, string> = {
+  ollama: "http://localhost:11434/v1",
+  vllm: "http://localhost:8000/v1",
+  lmstudio: "http://localhost:1234/v1"
+}
+for (const [name, baseURL] of Object.entries(LOCAL_SERVER_URLS)) {
+  registerLLMProvider(name, settings =>
+    providers.get("openai-compatible")!({
+      ...settings,
+      baseURL: settings.baseURL || baseURL
+    })
+  )
+}
+
+registerLLMProvider("fake", settings =>
+  createFakeLanguageModel(settings.model, process.env.LLM_FAKE_RESPONSES)
+)
+
+/**
+ * getLLMSettings:
+ * - Reads the settings for a step from the environment.
+ * - A step-specific variable (LLM_<STEP>_MODEL) wins over the global one (LLM_MODEL).
+ * - Defaults to the "openai" provider if no LLM_PROVIDER is specified.
+ * - Throws an Error naming every invalid variable, e.g. a temperature that isn't a number.
+ */
+export function getLLMSettings(step?: AgentStep): LLMSettings {
+  const raw: Record<string, string | undefined> = {}
+  // The variable each value came from, for the error message
+  const sources: Record<string, string> = {}
+  for (const [key, suffix] of Object.entries(SETTING_VARIABLES)) {
+    const name = [
+      step && `LLM_${step.toUpperCase()}_${suffix}`,
+      `LLM_${suffix}`
+    ].find(n => n && process.env[n])
+    if (name) {
+      raw[key] = process.env[name]
+      sources[key] = name
+    }
+  }
+
+  const result = llmSettingsSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(i => `- \`${sources[i.path[0]] ?? i.path.join(".")}\`: ${i.message}`)
+      .join("\n")
+    throw new Error(`Invalid LLM settings:\n${issues}`)
+  }
+  return result.data
+}
+
+/**
+ * getLLMModel:
+ * - Looks up the provider chosen for the step and creates its model function.
+ * - If the provider is unknown or its settings (like API keys) are missing, it throws an error.
+ * - When recording or replaying fixtures (see record-replay.ts), the model is wrapped accordingly.
+ * - Every call's token usage is recorded in the run ledger (see run-ledger.ts).
+ * - The returned model is used by other modules (e.g., code-review.ts) to call the LLM with a prompt.
+ */
+export function getLLMModel(step?: AgentStep): LanguageModelV1 {
+  const settings = getLLMSettings(step)
+  const factory = providers.get(settings.provider)
+  if (!factory) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${settings.provider}". Known providers: ${Array.from(providers.keys()).join(", ")}.`
+    )
+  }
+  return withUsageTracking(
+    step ?? "other",
+    withLLMFixtures(() => factory(settings))
+  )
+}
+
+/**
+ * getLLMCallSettings:
+ * - Returns the model plus the per-step call settings (temperature, max tokens),
+ *   ready to be spread into generateObject.
+ */
+export function getLLMCallSettings(step: AgentStep) {
+  const settings = getLLMSettings(step)
+  return {
+    model: getLLMModel(step),
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens
+  }
 }
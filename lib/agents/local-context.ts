@@ -0,0 +1,245 @@
+/**
+ * This file builds a "PullRequestContext" from a local git range instead of the GitHub API,
+ * so the review/test loop can be tried before anything is pushed.
+ *
+ * - buildLocalPRContext: Diffs a range like "main..HEAD" and collects patches, contents and commit messages.
+ * - buildLocalTestContext: Extends that context with the test files found in the working tree.
+ * - parseCliArgs: Reads the CLI's "--local [range]" and "--output <file>" options.
+ */
+
+import { execFileSync } from "child_process"
+import fs from "fs"
+import path from "path"
+import {
+  AgentConfig,
+  DEFAULT_AGENT_CONFIG,
+  getPathSettings
+} from "./agent-config"
+import { PullRequestContext, PullRequestContextWithTests } from "./pr-context"
+
+/**
+ * Options for a local run.
+ * - outputPath: if set, the agent's comments are written to this Markdown file instead of the terminal.
+ */
+export interface LocalRunOptions {
+  outputPath?: string
+}
+
+/**
+ * The options of a CLI run.
+ * - local: set for "--local [range]" (default range "main..HEAD"), with "--output <file>" as outputPath.
+ */
+export interface CliOptions {
+  local?: { range: string; outputPath?: string }
+}
+
+// git reports single-letter statuses; we map them to the names GitHub uses for PR files
+const GIT_STATUS_NAMES: Record<string, string> = {
+  A: "added",
+  M: "modified",
+  D: "removed",
+  T: "changed"
+}
+
+/**
+ * parseCliArgs:
+ * - Parses the arguments of scripts/ai-flow.ts (without "node" and the script path).
+ * - Throws if "--output" has no file path after it.
+ */
+export function parseCliArgs(args: string[]): CliOptions {
+  const localIndex = args.indexOf("--local")
+  if (localIndex === -1) return {}
+
+  // The range is optional; anything starting with "--" is the next flag
+  const rangeArg = args[localIndex + 1]
+  const range = rangeArg && !rangeArg.startsWith("--") ? rangeArg : "main..HEAD"
+
+  const outputIndex = args.indexOf("--output")
+  const outputPath = outputIndex !== -1 ? args[outputIndex + 1] : undefined
+  if (outputIndex !== -1 && (!outputPath || outputPath.startsWith("--"))) {
+    throw new Error(
+      '"--output" needs a file path, e.g. "--output ai-review.md".'
+    )
+  }
+  return { local: { range, outputPath } }
+}
+
+/**
+ * buildLocalPRContext:
+ * - Resolves the range (e.g. "main..HEAD") to the merge base and head, like a PR diff would.
+ * - Lists changed files with their patch, line counts and content at the head revision
+ *   (and at the merge base, for modified files).
+ * - Collects the commit messages in the range, oldest first.
+ */
+export function buildLocalPRContext(
+  range: string,
+  options: LocalRunOptions = {},
+  config: AgentConfig = DEFAULT_AGENT_CONFIG,
+  cwd = process.cwd()
+): PullRequestContext {
+  const [baseRev, headRev = "HEAD"] = range.split(/\.{2,3}/)
+  if (!baseRev) {
+    throw new Error(`Invalid git range "${range}". Expected e.g. "main..HEAD".`)
+  }
+
+  const mergeBase = git(["merge-base", baseRev, headRev], cwd).trim()
+
+  // name-status gives us the status, numstat the additions/deletions
+  const statuses = new Map<string, string>()
+  for (const line of git(
+    ["diff", "--name-status", "--no-renames", mergeBase, headRev],
+    cwd
+  ).split("\n")) {
+    if (!line.trim()) continue
+    const [status, filename] = line.split("\t")
+    statuses.set(filename, GIT_STATUS_NAMES[status[0]] || "modified")
+  }
+
+  const changedFiles: PullRequestContext["changedFiles"] = []
+  for (const line of git(
+    ["diff", "--numstat", "--no-renames", mergeBase, headRev],
+    cwd
+  ).split("\n")) {
+    if (!line.trim()) continue
+    const [additions, deletions, filename] = line.split("\t")
+
+    const fileObj = {
+      filename,
+      patch: getLocalPatch(mergeBase, headRev, filename, cwd),
+      status: statuses.get(filename) || "modified",
+      // Binary files are reported as "-" by numstat
+      additions: parseInt(additions, 10) || 0,
+      deletions: parseInt(deletions, 10) || 0,
+      content: undefined as string | undefined,
+      excluded: false,
+      baseContent: undefined as string | undefined
+    }
+
+    const pathSettings = getPathSettings(config, filename)
+    if (fileObj.status !== "removed" && !pathSettings.exclude) {
+      const content = gitShow(headRev, filename, cwd)
+      if (content && content.length <= pathSettings.maxFileSize) {
+        fileObj.content = content
+      } else {
+        fileObj.excluded = true
+      }
+    } else {
+      fileObj.excluded = true
+    }
+
+    // The "before" side, like buildPRContext records it for modified files
+    if (!fileObj.excluded && fileObj.status === "modified") {
+      const baseContent = gitShow(mergeBase, filename, cwd)
+      if (baseContent && baseContent.length <= pathSettings.maxFileSize) {
+        fileObj.baseContent = baseContent
+      }
+    }
+
+    changedFiles.push(fileObj)
+  }
+
+  // %x1e is the ASCII record separator, which never shows up in commit messages
+  const commitMessages = git(
+    ["log", "--reverse", "--format=%B%x1e", `${mergeBase}..${headRev}`],
+    cwd
+  )
+    .split("\x1e")
+    .map(m => m.trim())
+    .filter(Boolean)
+
+  return {
+    owner: "local",
+    repo: path.basename(cwd),
+    pullNumber: 0,
+    headRef: git(["rev-parse", "--abbrev-ref", headRev], cwd).trim(),
+    headSha: git(["rev-parse", headRev], cwd).trim(),
+    baseRef: baseRev,
+    baseSha: mergeBase,
+    title: `Local changes (${range})`,
+    labels: [],
+    changedFiles,
+    commitMessages,
+    config,
+    local: options
+  }
+}
+
+/**
+ * buildLocalTestContext:
+ * - The local counterpart of buildTestContext: reads existing tests (from the configured test directory)
+ *   from the working tree.
+ */
+export function buildLocalTestContext(
+  context: PullRequestContext,
+  cwd = process.cwd()
+): PullRequestContextWithTests {
+  return {
+    ...context,
+    existingTestFiles: readTestFiles(cwd, context.config.testDir)
+  }
+}
+
+/**
+ * getLocalPatch:
+ * - Returns the diff for a single file, stripped of the git headers,
+ *   so it has the same "@@ ... @@" shape as the patch GitHub returns.
+ */
+function getLocalPatch(
+  baseRev: string,
+  headRev: string,
+  filename: string,
+  cwd: string
+) {
+  const diff = git(
+    ["diff", "--no-renames", baseRev, headRev, "--", filename],
+    cwd
+  )
+  const hunkStart = diff.indexOf("@@")
+  return hunkStart === -1 ? "" : diff.slice(hunkStart).trimEnd()
+}
+
+/**
+ * gitShow:
+ * - Reads a file at a given revision, returning undefined if it isn't there.
+ */
+export function gitShow(rev: string, filename: string, cwd: string) {
+  try {
+    return git(["show", `${rev}:${filename}`], cwd)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * readTestFiles:
+ * - Recursively collects files under a directory of the working tree.
+ */
+function readTestFiles(
+  cwd: string,
+  dirPath: string
+): { filename: string; content: string }[] {
+  const results: { filename: string; content: string }[] = []
+  const absDir = path.join(cwd, dirPath)
+  if (!fs.existsSync(absDir)) return results
+
+  for (const entry of fs.readdirSync(absDir, { withFileTypes: true })) {
+    const relPath = path.posix.join(dirPath, entry.name)
+    if (entry.isDirectory()) {
+      results.push(...readTestFiles(cwd, relPath))
+    } else if (entry.isFile()) {
+      results.push({
+        filename: relPath,
+        content: fs.readFileSync(path.join(cwd, relPath), "utf8")
+      })
+    }
+  }
+  return results
+}
+
+function git(args: string[], cwd: string) {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    maxBuffer: 64 * 1024 * 1024
+  })
+}
@@ -0,0 +1,65 @@
+/**
+ * This module is the local-mode stand-in for PR comments.
+ *
+ * Instead of calling GitHub, comments are kept in memory. They are written to a Markdown file
+ * as they change (if an output path was given), or printed to the terminal at the end of the run.
+ */
+
+import fs from "fs"
+import path from "path"
+import { PullRequestContext } from "./pr-context"
+
+// Comment bodies keyed by their fake comment ID, in creation order
+const localComments = new Map<number, string>()
+
+/**
+ * createLocalComment:
+ * - Stores a new comment and returns an ID that can be passed to updateLocalComment.
+ */
+export function createLocalComment(
+  context: Pick<PullRequestContext, "local">,
+  body: string
+): number {
+  const id = localComments.size + 1
+  localComments.set(id, body)
+  writeLocalReport(context)
+  return id
+}
+
+/**
+ * updateLocalComment:
+ * - Replaces the body of a stored comment.
+ */
+export function updateLocalComment(
+  context: Pick<PullRequestContext, "local">,
+  commentId: number,
+  body: string
+) {
+  localComments.set(commentId, body)
+  writeLocalReport(context)
+}
+
+/**
+ * flushLocalReport:
+ * - Called once the flow is done.
+ * - Prints all comments to the terminal, or points to the Markdown file they were written to.
+ */
+export function flushLocalReport(context: PullRequestContext) {
+  if (context.local?.outputPath) {
+    writeLocalReport(context)
+    console.log(`AI Agent report written to ${context.local.outputPath}`)
+    return
+  }
+  console.log(`\n${renderLocalReport()}`)
+}
+
+function writeLocalReport(context: Pick<PullRequestContext, "local">) {
+  const outputPath = context.local?.outputPath
+  if (!outputPath) return
+  fs.mkdirSync(path.dirname(path.resolve(outputPath)), { recursive: true })
+  fs.writeFileSync(outputPath, renderLocalReport(), "utf8")
+}
+
+function renderLocalReport() {
+  return Array.from(localComments.values()).join("\n\n---\n\n") + "\n"
+}
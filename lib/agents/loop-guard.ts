@@ -0,0 +1,139 @@
+/**
+ * This module keeps the agent from reviewing its own commits.
+ *
+ * When the agent commits tests with a PAT or App token, the push triggers another "synchronize" run
+ * for the same PR. Before doing anything else, runFlow asks decideRun whether the head commit came
+ * from the agent, recognized by any of:
+ * - the commit trailer every agent commit carries (see github-commit.ts), on a commit authored or committed
+ *   by the agent's account (anyone can write the trailer into a commit message),
+ * - an author login listed in the config's loopPrevention.authors (e.g. your App's bot account),
+ * - a SHA the agent recorded in one of its own PR comments (a hidden marker).
+ *
+ * Every decision is logged with its reason, so a skipped run is easy to explain from the Action log.
+ */
+
+import { AgentConfig } from "./agent-config"
+import { isAgentAccount, isAgentComment } from "./github-comments"
+import { AGENT_COMMIT_TRAILER } from "./github-commit"
+
+const COMMIT_MARKER_PATTERN = /<!-- ai-agent:commit ([0-9a-f]{7,40}) -->/g
+
+/**
+ * The outcome of the loop check.
+ * - skip: true if this run was triggered by the agent's own commit.
+ * - reason: why, for the log.
+ */
+export interface RunDecision {
+  skip: boolean
+  reason: string
+}
+
+/**
+ * formatCommitMarker:
+ * - The hidden marker we put in the PR comment for each commit the agent pushes.
+ */
+export function formatCommitMarker(sha: string) {
+  return `<!-- ai-agent:commit ${sha} -->`
+}
+
+/**
+ * decideRun:
+ * - Only runs triggered by a push ("synchronize") can be loops; everything else always runs.
+ * - Checks the head commit's message and author, then the SHAs recorded in the agent's own comments.
+ * - Logs and returns the decision.
+ */
+export async function decideRun(
+  octokit: any,
+  options: {
+    owner: string
+    repo: string
+    pullNumber: number
+    headSha: string
+    action: string | undefined
+    config: AgentConfig
+  }
+): Promise<RunDecision> {
+  const decision = await checkHeadCommit(octokit, options)
+  console.log(
+    `Loop guard: ${decision.skip ? "skipping" : "running"} (${decision.reason})`
+  )
+  return decision
+}
+
+async function checkHeadCommit(
+  octokit: any,
+  options: {
+    owner: string
+    repo: string
+    pullNumber: number
+    headSha: string
+    action: string | undefined
+    config: AgentConfig
+  }
+): Promise<RunDecision> {
+  const { owner, repo, pullNumber, headSha, action, config } = options
+  const sha = headSha.slice(0, 7)
+
+  if (!config.loopPrevention.enabled) {
+    return { skip: false, reason: "loop prevention is disabled in the config" }
+  }
+  if (action !== "synchronize") {
+    return {
+      skip: false,
+      reason: `the "${action ?? "unknown"}" event wasn't triggered by a push`
+    }
+  }
+
+  const { data: commit } = await octokit.repos.getCommit({
+    owner,
+    repo,
+    ref: headSha
+  })
+  const message: string = commit.commit?.message ?? ""
+  const hasTrailer = message
+    .split("\n")
+    .some(line => line.trim() === AGENT_COMMIT_TRAILER)
+  const agentAccount = [commit.author, commit.committer].find(user =>
+    isAgentAccount(user, config)
+  )
+  if (hasTrailer && agentAccount) {
+    return {
+      skip: true,
+      reason: `head commit ${sha} has the "${AGENT_COMMIT_TRAILER}" trailer and comes from ${agentAccount.login}`
+    }
+  }
+
+  const author: string | undefined = commit.author?.login
+  if (author && config.loopPrevention.authors.includes(author)) {
+    return {
+      skip: true,
+      reason: `head commit ${sha} was authored by ${author}, a configured agent identity`
+    }
+  }
+
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner,
+    repo,
+    issue_number: pullNumber,
+    per_page: 100
+  })
+  for (const comment of comments) {
+    // Anyone can paste a marker into a comment
+    if (!isAgentComment(comment, config)) continue
+    for (const match of (comment.body ?? "").matchAll(COMMIT_MARKER_PATTERN)) {
+      if (headSha.startsWith(match[1])) {
+        return {
+          skip: true,
+          reason: `head commit ${sha} was recorded as an agent commit in comment ${comment.id}`
+        }
+      }
+    }
+  }
+
+  return {
+    skip: false,
+    reason: hasTrailer
+      ? `head commit ${sha} has the "${AGENT_COMMIT_TRAILER}" trailer, but doesn't come from the agent's account`
+      : `head commit ${sha} doesn't come from the agent`
+  }
+}
@@ -2,16 +2,33 @@
  * This file defines functions and interfaces to build a "PullRequestContext" object,
  * which encapsulates the relevant data about a PR (title, changed files, commit messages).
  *
- * - buildPRContext: Gathers the main info about the pull request and files changed.
+ * - buildPRContext: Gathers the main info about the pull request and files changed (every page of them).
  * - buildTestContext: Extends that context by also fetching existing tests.
  */
 
 import { Octokit } from "@octokit/rest"
 import { Buffer } from "buffer"
+import {
+  AgentConfig,
+  DEFAULT_AGENT_CONFIG,
+  getPathSettings
+} from "./agent-config"
+import { RelatedFile } from "./import-graph"
+import { IncrementalReview } from "./incremental-review"
+import { LocalRunOptions } from "./local-context"
+import { SecretLeak } from "./redaction"
+import { CoverageReport } from "./test-coverage"
+
+// Contents are fetched for at most this many files (two API calls each); the rest are reviewed from their patch
+const MAX_CONTENT_FILES = 300
+
+// How many files' contents are fetched at the same time
+const CONTENT_FETCH_CONCURRENCY = 8
 
 /**
  * The main shape of a pull request context used by other modules.
  * - changedFiles array includes patch diffs, potential file content, etc.
+ *   previousFilename is set for renamed files; baseContent is the file before the PR (modified and renamed files).
  * - commitMessages is an array of the commit messages from the PR.
  */
 export interface PullRequestContext {
@@ -19,8 +36,17 @@ export interface PullRequestContext {
   repo: string
   pullNumber: number
   headRef: string
+  // The head commit the diff was computed for; review comments are anchored to it.
+  // Moves forward when the agent commits tests, so its next commit builds on its own.
+  headSha: string
   baseRef: string
+  // The base commit the diff was computed against; files are read from it as they were before the PR
+  baseSha?: string
   title: string
+  // The PR's label names (e.g. "ai-agent:suggest" picks the delivery mode, see test-delivery.ts)
+  labels: string[]
+  // Set when the PR's branch is in another repo (a fork), which the agent can't push to
+  fork?: boolean
   changedFiles: {
     filename: string
     patch: string
@@ -29,8 +55,27 @@ export interface PullRequestContext {
     deletions: number
     content?: string
     excluded?: boolean
+    previousFilename?: string
+    baseContent?: string
+    // Secrets on the lines the PR adds, found by the redaction pass (see redaction.ts)
+    leaks?: SecretLeak[]
   }[]
+  // Set when the PR changes more files than GitHub lists, so changedFiles is incomplete
+  filesTruncated?: { listed: number; total: number }
+  // Set when some changed files' contents weren't fetched (past MAX_CONTENT_FILES, or once GitHub's API
+  // rate limit was hit); those files are reviewed from their patch alone
+  contentsSkipped?: { count: number; rateLimited: boolean }
   commitMessages: string[]
+  // The repo's agent config (see agent-config.ts)
+  config: AgentConfig
+  // Set on a push when only the changes since the last review are reviewed (see incremental-review.ts)
+  incremental?: IncrementalReview
+  // Files imported by or importing the changed files, added to prompts for reference (see import-graph.ts)
+  relatedFiles?: RelatedFile[]
+  // Set by the gating step when it measured the coverage of the changed lines (see test-coverage.ts)
+  coverage?: CoverageReport
+  // Set when the context was built from a local git range (see local-context.ts)
+  local?: LocalRunOptions
 }
 
 /**
@@ -47,14 +92,20 @@ export interface PullRequestContextWithTests extends PullRequestContext {
 /**
  * buildPRContext:
  * - Retrieves PR info from GitHub (title, head/base branches).
- * - Lists changed files and collects their patch data and file content (if not too large).
+ * - Lists changed files and collects their patch data and file content (if not too large or excluded by the config).
+ *   Content is read at the head commit, which this repo has even when the branch is in a fork.
+ *   Modified and renamed files also get their content at the base commit, so prompts can show before and after.
+ * - Contents are only fetched for files that can enter a prompt, at most MAX_CONTENT_FILES of them and
+ *   a few at a time; hitting GitHub's rate limit stops the fetching instead of failing the run (see contentsSkipped).
  * - Also obtains the commit messages for the PR.
+ * - Every page of files and commits is fetched; GitHub itself stops listing files at 3000 (see filesTruncated).
  */
 export async function buildPRContext(
   octokit: Octokit,
   owner: string,
   repo: string,
-  pullNumber: number
+  pullNumber: number,
+  config: AgentConfig = DEFAULT_AGENT_CONFIG
 ): Promise<PullRequestContext> {
   // Get main PR metadata
   const { data: pr } = await octokit.pulls.get({
@@ -64,21 +115,30 @@ export async function buildPRContext(
   })
 
   // Get file changes in the PR
-  const filesRes = await octokit.pulls.listFiles({
+  const files = await octokit.paginate(octokit.pulls.listFiles, {
     owner,
     repo,
-    pull_number: pullNumber
+    pull_number: pullNumber,
+    per_page: 100
   })
 
   // Get commits in the PR
-  const commitsRes = await octokit.pulls.listCommits({
+  const commits = await octokit.paginate(octokit.pulls.listCommits, {
     owner,
     repo,
-    pull_number: pullNumber
+    pull_number: pullNumber,
+    per_page: 100
   })
 
-  const changedFiles = []
-  for (const file of filesRes.data) {
+  const changedFiles: PullRequestContext["changedFiles"] = []
+  // The files whose content can make it into a prompt, in PR order
+  const toFetch: {
+    file: (typeof files)[number]
+    fileObj: PullRequestContext["changedFiles"][number]
+    maxFileSize: number
+  }[] = []
+  let skipped = 0
+  for (const file of files) {
     const fileObj = {
       filename: file.filename,
       patch: file.patch ?? "",
@@ -86,49 +146,138 @@ export async function buildPRContext(
       additions: file.additions || 0,
       deletions: file.deletions || 0,
       content: undefined as string | undefined,
-      excluded: false
+      excluded: false,
+      previousFilename: file.previous_filename,
+      baseContent: undefined as string | undefined
+    }
+    changedFiles.push(fileObj)
+
+    // Removed files and files excluded by the config have no content to show
+    const pathSettings = getPathSettings(config, file.filename)
+    if (file.status === "removed" || pathSettings.exclude) {
+      fileObj.excluded = true
+      continue
+    }
+    // A patch that fills a review batch on its own leaves no room for the content (see formatFileForReview)
+    if (Math.ceil(fileObj.patch.length / 4) >= config.reviewBatchTokens) {
+      continue
+    }
+    if (toFetch.length >= MAX_CONTENT_FILES) {
+      skipped++
+      continue
     }
+    toFetch.push({ file, fileObj, maxFileSize: pathSettings.maxFileSize })
+  }
 
-    // If file is not removed and not in the exclude patterns, fetch content
-    if (file.status !== "removed" && !shouldExcludeFile(file.filename)) {
-      const content = await getFileContent(
-        octokit,
-        owner,
-        repo,
-        file.filename,
-        pr.head.ref
-      )
-      // If the file content is large, we skip storing it to avoid blowing up prompt
-      if (content && content.length <= 32000) {
+  let rateLimited = false
+  await forEachConcurrently(
+    toFetch,
+    CONTENT_FETCH_CONCURRENCY,
+    async ({ file, fileObj, maxFileSize }) => {
+      // Once GitHub's rate limit is hit, the remaining files are reviewed from their patch alone
+      if (rateLimited) {
+        skipped++
+        return
+      }
+      try {
+        const content = await getFileContent(
+          octokit,
+          owner,
+          repo,
+          file.filename,
+          pr.head.sha
+        )
+        // If the file content is large, we skip storing it to avoid blowing up prompt
+        if (!content || content.length > maxFileSize) {
+          fileObj.excluded = true
+          return
+        }
         fileObj.content = content
-      } else {
-        fileObj.excluded = true
+
+        // The "before" side: only for files that existed and changed (a pure rename has no patch)
+        if (
+          file.status === "modified" ||
+          (file.status === "renamed" && file.patch)
+        ) {
+          const baseContent = await getFileContent(
+            octokit,
+            owner,
+            repo,
+            file.previous_filename ?? file.filename,
+            pr.base.sha
+          )
+          if (baseContent && baseContent.length <= maxFileSize) {
+            fileObj.baseContent = baseContent
+          }
+        }
+      } catch (err) {
+        if (!isRateLimitError(err)) throw err
+        if (fileObj.content === undefined) skipped++
+        rateLimited = true
       }
-    } else {
-      fileObj.excluded = true
     }
+  )
+  const contentsSkipped =
+    skipped > 0 ? { count: skipped, rateLimited } : undefined
+  if (contentsSkipped) {
+    console.warn(
+      `The contents of ${skipped} changed files were not fetched${rateLimited ? " (GitHub's API rate limit was reached)" : ""}; they are reviewed from their patches alone.`
+    )
+  }
 
-    changedFiles.push(fileObj)
+  // GitHub stops listing files at 3000; pr.changed_files still has the real count
+  const filesTruncated =
+    pr.changed_files > files.length
+      ? { listed: files.length, total: pr.changed_files }
+      : undefined
+  if (filesTruncated) {
+    console.warn(
+      `The PR changes ${filesTruncated.total} files, but GitHub only lists ${filesTruncated.listed}; the rest are not reviewed.`
+    )
   }
 
   // Convert commit data to an array of messages
-  const commitMessages = commitsRes.data.map(c => c.commit.message)
+  const commitMessages = commits.map(c => c.commit.message)
 
   return {
     owner,
     repo,
     pullNumber,
     headRef: pr.head.ref,
+    headSha: pr.head.sha,
     baseRef: pr.base.ref,
+    baseSha: pr.base.sha,
     title: pr.title || "",
+    labels: (pr.labels || []).map(l => l.name),
+    // A deleted fork has no head repo at all
+    fork: pr.head.repo?.full_name !== pr.base.repo.full_name,
     changedFiles,
-    commitMessages
+    filesTruncated,
+    contentsSkipped,
+    commitMessages,
+    config
   }
 }
 
+/**
+ * formatFileHeader:
+ * - The "File: ..." line that starts a changed file in prompts, noting renames.
+ */
+export function formatFileHeader(
+  file: Pick<
+    PullRequestContext["changedFiles"][number],
+    "filename" | "previousFilename"
+  >
+) {
+  return file.previousFilename
+    ? `File: ${file.filename} (renamed from ${file.previousFilename})`
+    : `File: ${file.filename}`
+}
+
 /**
  * buildTestContext:
- * - Extends the context built by buildPRContext, but also fetches existing test files from the repository.
+ * - Extends the context built by buildPRContext, but also fetches existing test files
+ *   (from the configured test directory) from the repository.
  * - This ensures our test generation logic knows about existing tests.
  */
 export async function buildTestContext(
@@ -139,25 +288,18 @@ export async function buildTestContext(
     octokit,
     context.owner,
     context.repo,
-    context.headRef
+    context.headSha,
+    context.config.testDir
   )
   return { ...context, existingTestFiles }
 }
 
-/**
- * Certain files (like package-lock.json) are typically not relevant for our prompt, so we exclude them.
- */
-function shouldExcludeFile(filename: string): boolean {
-  const EXCLUDE_PATTERNS = ["package-lock.json", "yarn.lock", "pnpm-lock.yaml"]
-  return EXCLUDE_PATTERNS.some(pattern => filename.endsWith(pattern))
-}
-
 /**
  * getFileContent:
  * - Given a path and branch ref, fetches the file from GitHub as base64,
  *   then decodes it into a string.
  */
-async function getFileContent(
+export async function getFileContent(
   octokit: Octokit,
   owner: string,
   repo: string,
@@ -227,3 +369,31 @@ async function getAllTestFiles(
   }
   return results
 }
+
+/**
+ * forEachConcurrently:
+ * - Runs fn on every item, with at most limit calls in flight; items are started in order.
+ */
+async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+) {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++])
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  )
+}
+
+// GitHub answers 403 (primary limit, remaining 0) or 429 (secondary limit) once a token makes too many requests
+function isRateLimitError(err: any) {
+  return (
+    err?.status === 429 ||
+    (err?.status === 403 &&
+      (err.response?.headers?.["x-ratelimit-remaining"] === "0" ||
+        /rate limit/i.test(err.message ?? "")))
+  )
+}
@@ -0,0 +1,282 @@
+/**
+ * This module implements a record-and-replay harness for LLM calls and GitHub API calls,
+ * so the whole flow can be regression-tested against saved PR scenarios without network access.
+ *
+ * It is controlled by two environment variables:
+ * - AI_AGENT_FIXTURES_MODE: "record" or "replay" (unset means neither: everything goes live).
+ * - AI_AGENT_FIXTURES_DIR: the directory holding the fixtures (llm.json and github.json).
+ *
+ * In record mode every LLM prompt/response pair and every Octokit request/response is appended to the fixtures.
+ * In replay mode nothing goes out: responses are served from the fixtures in the order they were recorded,
+ * matched per LLM schema name (e.g. "review") and per GitHub method + URL. A request without a recorded
+ * response fails loudly, so a changed flow shows up as a test failure rather than a silent network call.
+ */
+
+import {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1FunctionToolCall
+} from "@ai-sdk/provider"
+import { wrapLanguageModel } from "ai"
+import fs from "fs"
+import path from "path"
+import { createFakeLanguageModel } from "./fake-llm"
+
+export type FixtureMode = "record" | "replay"
+
+/**
+ * A recorded LLM call.
+ * - schemaName: the name passed to generateObject; replay matches on it.
+ * - prompt: kept only to make fixtures readable and easy to update by hand.
+ * - text: the JSON object the model returned, as a string.
+ */
+export interface LLMFixture {
+  schemaName: string
+  prompt?: unknown
+  text: string
+  finishReason?: string
+  usage?: { promptTokens: number; completionTokens: number }
+}
+
+/**
+ * A recorded GitHub request.
+ * - request.url is the path and query string without the API host, e.g. "/repos/o/r/pulls/1".
+ * - Responses with a status of 400 or more are replayed as errors carrying that status.
+ */
+export interface GitHubFixture {
+  request: { method: string; url: string; body?: unknown }
+  response: { status: number; data: unknown }
+}
+
+// Fixtures loaded from (or appended to) disk, keyed by file name
+const loadedFixtures = new Map<string, unknown[]>()
+// How many fixtures of each match key have been served so far in replay mode
+const replayCursors = new Map<string, number>()
+// Every GitHub request the flow made during replay, for assertions in tests
+const replayedRequests: GitHubFixture["request"][] = []
+
+/**
+ * getFixtureMode:
+ * - Reads the mode and directory from the environment, or returns undefined when not recording or replaying.
+ */
+export function getFixtureMode():
+  | { mode: FixtureMode; dir: string }
+  | undefined {
+  const mode = process.env.AI_AGENT_FIXTURES_MODE
+  const dir = process.env.AI_AGENT_FIXTURES_DIR
+  if (!mode) return undefined
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(
+      `Invalid AI_AGENT_FIXTURES_MODE "${mode}". Expected "record" or "replay".`
+    )
+  }
+  if (!dir) {
+    throw new Error(
+      "AI_AGENT_FIXTURES_MODE is set but AI_AGENT_FIXTURES_DIR is missing."
+    )
+  }
+  return { mode, dir }
+}
+
+/**
+ * resetFixtures:
+ * - Forgets loaded fixtures and replay positions, so each test starts from a clean slate.
+ */
+export function resetFixtures() {
+  loadedFixtures.clear()
+  replayCursors.clear()
+  replayedRequests.length = 0
+}
+
+/**
+ * getReplayedRequests:
+ * - Returns the GitHub requests the flow made while replaying, in order.
+ */
+export function getReplayedRequests() {
+  return [...replayedRequests]
+}
+
+/**
+ * withLLMFixtures:
+ * - Wraps the model so its calls are recorded, or replaced by recorded responses.
+ * - createModel is only called when a real model is needed, so replay works without API keys.
+ */
+export function withLLMFixtures(
+  createModel: () => LanguageModelV1
+): LanguageModelV1 {
+  const fixtures = getFixtureMode()
+  if (!fixtures) return createModel()
+
+  if (fixtures.mode === "record") {
+    return wrapLanguageModel({
+      model: createModel(),
+      middleware: {
+        wrapGenerate: async ({ doGenerate, params }) => {
+          const result = await doGenerate()
+          appendFixture<LLMFixture>(fixtures.dir, "llm.json", {
+            schemaName: getSchemaName(params),
+            prompt: params.prompt,
+            text: result.text ?? result.toolCalls?.[0]?.args ?? "",
+            finishReason: result.finishReason,
+            usage: result.usage
+          })
+          return result
+        }
+      }
+    })
+  }
+
+  // In replay mode the underlying model is never called
+  return wrapLanguageModel({
+    model: createFakeLanguageModel("replay"),
+    middleware: {
+      wrapGenerate: async ({ params }) => {
+        const schemaName = getSchemaName(params)
+        const fixture = nextFixture<LLMFixture>(
+          fixtures.dir,
+          "llm.json",
+          `llm:${schemaName}`,
+          f => f.schemaName === schemaName
+        )
+        if (!fixture) {
+          throw new Error(
+            `No recorded LLM response for schema "${schemaName}" in ${fixtures.dir}/llm.json.`
+          )
+        }
+        return {
+          ...toModelOutput(params, fixture.text),
+          finishReason: (fixture.finishReason as "stop") ?? "stop",
+          usage: fixture.usage ?? { promptTokens: 0, completionTokens: 0 },
+          rawCall: { rawPrompt: params.prompt, rawSettings: {} }
+        }
+      }
+    }
+  })
+}
+
+/**
+ * withOctokitFixtures:
+ * - Hooks into every request the Octokit instance makes, recording it or serving it from the fixtures.
+ * - Returns the same instance for convenience.
+ */
+export function withOctokitFixtures<T extends { hook: any; request: any }>(
+  octokit: T
+): T {
+  const fixtures = getFixtureMode()
+  if (!fixtures) return octokit
+
+  octokit.hook.wrap("request", async (request: any, options: any) => {
+    // Other plugins wrap requests too, so "request" may not expose the endpoint helpers
+    const endpoint = octokit.request.endpoint.parse(options)
+    const url = new URL(endpoint.url)
+    const fixtureRequest = {
+      method: endpoint.method,
+      url: url.pathname + url.search,
+      body: endpoint.body
+    }
+
+    if (fixtures.mode === "record") {
+      try {
+        const response = await request(options)
+        appendFixture<GitHubFixture>(fixtures.dir, "github.json", {
+          request: fixtureRequest,
+          response: { status: response.status, data: response.data }
+        })
+        return response
+      } catch (err: any) {
+        if (err.status) {
+          appendFixture<GitHubFixture>(fixtures.dir, "github.json", {
+            request: fixtureRequest,
+            response: { status: err.status, data: err.response?.data }
+          })
+        }
+        throw err
+      }
+    }
+
+    replayedRequests.push(fixtureRequest)
+    const key = `${fixtureRequest.method} ${fixtureRequest.url}`
+    const fixture = nextFixture<GitHubFixture>(
+      fixtures.dir,
+      "github.json",
+      `github:${key}`,
+      f => `${f.request.method} ${f.request.url}` === key
+    )
+    if (!fixture) {
+      throw new Error(
+        `No recorded GitHub response for ${key} in ${fixtures.dir}/github.json.`
+      )
+    }
+    if (fixture.response.status >= 400) {
+      // Mirror Octokit's RequestError closely enough for our error handling (err.status)
+      throw Object.assign(
+        new Error(`Replayed ${fixture.response.status} for ${key}`),
+        { status: fixture.response.status, response: fixture.response }
+      )
+    }
+    return {
+      status: fixture.response.status,
+      url: endpoint.url,
+      headers: {},
+      data: fixture.response.data
+    }
+  })
+
+  return octokit
+}
+
+function getSchemaName(params: LanguageModelV1CallOptions) {
+  const mode = params.mode
+  if (mode.type === "object-json") return mode.name ?? "object"
+  if (mode.type === "object-tool") return mode.tool.name
+  return "text"
+}
+
+// Returns the recorded object in the shape the current generation mode expects
+function toModelOutput(params: LanguageModelV1CallOptions, text: string) {
+  if (params.mode.type !== "object-tool") return { text }
+  const toolCall: LanguageModelV1FunctionToolCall = {
+    toolCallType: "function",
+    toolCallId: "replay",
+    toolName: params.mode.tool.name,
+    args: text
+  }
+  return { toolCalls: [toolCall] }
+}
+
+function loadFixtures<T>(dir: string, file: string): T[] {
+  const cacheKey = path.join(dir, file)
+  if (!loadedFixtures.has(cacheKey)) {
+    const filePath = path.join(dir, file)
+    loadedFixtures.set(
+      cacheKey,
+      fs.existsSync(filePath)
+        ? JSON.parse(fs.readFileSync(filePath, "utf8"))
+        : []
+    )
+  }
+  return loadedFixtures.get(cacheKey) as T[]
+}
+
+function appendFixture<T>(dir: string, file: string, fixture: T) {
+  const fixtures = loadFixtures<T>(dir, file)
+  fixtures.push(fixture)
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(
+    path.join(dir, file),
+    JSON.stringify(fixtures, null, 2) + "\n"
+  )
+}
+
+// Serves the next fixture for a match key, in recording order
+function nextFixture<T>(
+  dir: string,
+  file: string,
+  key: string,
+  matches: (fixture: T) => boolean
+): T | undefined {
+  const candidates = loadFixtures<T>(dir, file).filter(matches)
+  const cursor = replayCursors.get(key) ?? 0
+  replayCursors.set(key, cursor + 1)
+  return candidates[cursor]
+}
@@ -0,0 +1,174 @@
+/**
+ * This module posts the code review's findings as a single GitHub pull request review,
+ * with each finding as an inline comment anchored to its line in the diff.
+ *
+ * - GitHub anchors review comments by "position": the line index inside a file's patch.
+ * - We compute that position from each changed file's patch.
+ * - Findings that can't be anchored (file or line not in the diff) go into the review body instead.
+ * - Inline comments carry a hidden marker, so a later incremental review can find the open ones.
+ */
+
+import { ReviewFinding } from "./code-review"
+import { FINDING_MARKER } from "./incremental-review"
+import { PullRequestContext } from "./pr-context"
+
+const SEVERITY_ICONS: Record<ReviewFinding["severity"], string> = {
+  critical: "🛑",
+  high: "🔴",
+  medium: "🟠",
+  low: "🟡",
+  info: "🔵"
+}
+
+/**
+ * mapPatchPositions:
+ * - Walks a unified diff patch and records the diff position of every line.
+ * - Keys are "RIGHT:<new line>" for added/context lines and "LEFT:<old line>" for removed/context lines.
+ * - Position 1 is the line right after the first "@@" header; later "@@" headers also count as a position.
+ */
+export function mapPatchPositions(patch: string): Map<string, number> {
+  const positions = new Map<string, number>()
+  let position = 0
+  let oldLine = 0
+  let newLine = 0
+  let seenHunk = false
+
+  for (const line of patch.split("\n")) {
+    const hunk = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+    if (hunk) {
+      // The first hunk header is position 0; every following line (headers included) counts
+      if (seenHunk) position++
+      seenHunk = true
+      oldLine = parseInt(hunk[1], 10)
+      newLine = parseInt(hunk[2], 10)
+      continue
+    }
+    if (!seenHunk) continue
+
+    position++
+    if (line.startsWith("+")) {
+      positions.set(`RIGHT:${newLine++}`, position)
+    } else if (line.startsWith("-")) {
+      positions.set(`LEFT:${oldLine++}`, position)
+    } else if (line.startsWith("\\")) {
+      // "\ No newline at end of file" takes a position but is no line of either side
+    } else {
+      positions.set(`RIGHT:${newLine++}`, position)
+      positions.set(`LEFT:${oldLine++}`, position)
+    }
+  }
+
+  return positions
+}
+
+/**
+ * findDiffPosition:
+ * - Returns the diff position of a line on the given side, or undefined if the line isn't in the patch.
+ */
+export function findDiffPosition(
+  patch: string,
+  line: number,
+  side: "LEFT" | "RIGHT"
+): number | undefined {
+  return mapPatchPositions(patch).get(`${side}:${line}`)
+}
+
+/**
+ * postReviewFindings:
+ * - Splits findings into those we can anchor in the diff and those we can't.
+ * - Posts a single "COMMENT" review with the anchored findings as inline comments.
+ * - If GitHub rejects the inline comments, retries with every finding in the review body.
+ * - Returns how many findings were posted inline.
+ */
+export async function postReviewFindings(
+  octokit: any,
+  context: PullRequestContext,
+  findings: ReviewFinding[]
+): Promise<{ inline: number; unanchored: number }> {
+  if (findings.length === 0) return { inline: 0, unanchored: 0 }
+
+  const comments: { path: string; position: number; body: string }[] = []
+  const unanchored: ReviewFinding[] = []
+
+  for (const finding of findings) {
+    const file = context.changedFiles.find(f => f.filename === finding.path)
+    // An incremental review's LEFT lines are numbered in the last reviewed head, not in the PR's base
+    const anchorable = !(context.incremental && finding.side === "LEFT")
+    // For ranges we anchor on the last line, which is where GitHub shows multi-line comments too
+    const position =
+      file?.patch && anchorable
+        ? findDiffPosition(file.patch, finding.line, finding.side)
+        : undefined
+    if (position === undefined) {
+      unanchored.push(finding)
+    } else {
+      const range =
+        finding.startLine && finding.startLine !== finding.line
+          ? `\n\n_Applies to lines ${formatLines(finding)}._`
+          : ""
+      comments.push({
+        path: finding.path,
+        position,
+        body: `${formatFinding(finding)}${range}\n${FINDING_MARKER}`
+      })
+    }
+  }
+
+  try {
+    await octokit.pulls.createReview({
+      owner: context.owner,
+      repo: context.repo,
+      pull_number: context.pullNumber,
+      commit_id: context.headSha,
+      event: "COMMENT",
+      body: formatReviewBody(findings.length, unanchored),
+      comments
+    })
+    return { inline: comments.length, unanchored: unanchored.length }
+  } catch (err: any) {
+    // 422 means GitHub couldn't resolve a position, e.g. the head moved since we fetched the diff
+    if (err.status !== 422) throw err
+    console.error(
+      "Inline review comments rejected, posting findings in the review body:",
+      err.message
+    )
+    await octokit.pulls.createReview({
+      owner: context.owner,
+      repo: context.repo,
+      pull_number: context.pullNumber,
+      commit_id: context.headSha,
+      event: "COMMENT",
+      body: formatReviewBody(findings.length, findings)
+    })
+    return { inline: 0, unanchored: findings.length }
+  }
+}
+
+/**
+ * formatFindingsList:
+ * - Renders findings as a Markdown list with their location, e.g. for the review body or local mode.
+ */
+export function formatFindingsList(findings: ReviewFinding[]): string {
+  return findings
+    .map(f => `- **${f.path}:${formatLines(f)}** ${formatFinding(f)}`)
+    .join("\n")
+}
+
+function formatReviewBody(total: number, unanchored: ReviewFinding[]) {
+  let body = `### AI Code Review\nFound ${total} issue(s).`
+  if (unanchored.length > 0) {
+    body += `\n\n**Findings outside the diff**\n${formatFindingsList(unanchored)}`
+  }
+  return body
+}
+
+function formatFinding(f: ReviewFinding) {
+  return `${SEVERITY_ICONS[f.severity]} **${f.severity}** · _${f.category}_: ${f.message}`
+}
+
+function formatLines(f: ReviewFinding) {
+  const side = f.side === "LEFT" ? " (removed)" : ""
+  return f.startLine && f.startLine !== f.line
+    ? `${f.startLine}-${f.line}${side}`
+    : `${f.line}${side}`
+}
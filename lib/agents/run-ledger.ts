@@ -0,0 +1,253 @@
+/**
+ * This module keeps a ledger of every LLM call made during a run: prompt and completion tokens,
+ * latency, and the estimated cost per agent step and model.
+ *
+ * - Calls are recorded by wrapping the model returned from llm.ts, so every step is covered automatically.
+ * - Costs are estimated from a price table (USD per million tokens). The built-in prices can be
+ *   overridden or extended with "pricing" in the agent config.
+ * - The config's "budget" caps a run; the fix loop stops once it's exceeded.
+ * - At the end of a run the totals go into the PR comment and into a JSON report in reports/.
+ */
+
+import { LanguageModelV1 } from "@ai-sdk/provider"
+import { wrapLanguageModel } from "ai"
+import fs from "fs"
+import path from "path"
+import { AgentConfig } from "./agent-config"
+
+export const LEDGER_REPORT_PATH = "reports/ai-agent/run-ledger.json"
+
+// USD per million tokens for the providers' default models
+export const DEFAULT_PRICING: Record<
+  string,
+  { input: number; output: number }
+> = {
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "claude-3-5-sonnet-latest": { input: 3, output: 15 },
+  "claude-3-5-haiku-latest": { input: 0.8, output: 4 }
+}
+
+/**
+ * One LLM call.
+ * - step: the agent step that made the call (e.g. "review"), see AgentStep in llm.ts.
+ * - model: the model ID, which is also the key into the price table.
+ */
+export interface LedgerEntry {
+  step: string
+  provider: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  latencyMs: number
+}
+
+/**
+ * The totals for one step and model (or for the whole run).
+ * - costUsd is undefined if the model has no price in the table.
+ */
+export interface LedgerTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  latencyMs: number
+  costUsd?: number
+}
+
+// The calls made during the current run, in order
+const entries: LedgerEntry[] = []
+
+/**
+ * resetLedger:
+ * - Starts a new run with an empty ledger.
+ */
+export function resetLedger() {
+  entries.length = 0
+}
+
+/**
+ * recordLLMCall:
+ * - Adds a call to the ledger.
+ */
+export function recordLLMCall(entry: LedgerEntry) {
+  entries.push(entry)
+}
+
+/**
+ * getLedgerEntries:
+ * - Returns the calls recorded so far in this run.
+ */
+export function getLedgerEntries() {
+  return [...entries]
+}
+
+/**
+ * withUsageTracking:
+ * - Wraps a model so that each call's token usage and latency end up in the ledger.
+ */
+export function withUsageTracking(
+  step: string,
+  model: LanguageModelV1
+): LanguageModelV1 {
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate }) => {
+        const start = Date.now()
+        const result = await doGenerate()
+        recordLLMCall({
+          step,
+          provider: model.provider,
+          model: model.modelId,
+          // Some providers report NaN when they don't return usage
+          promptTokens: result.usage.promptTokens || 0,
+          completionTokens: result.usage.completionTokens || 0,
+          latencyMs: Date.now() - start
+        })
+        return result
+      }
+    }
+  })
+}
+
+/**
+ * estimateCost:
+ * - Prices a single call in USD, or returns undefined if the model isn't in the price table.
+ */
+export function estimateCost(
+  config: AgentConfig,
+  entry: Pick<LedgerEntry, "model" | "promptTokens" | "completionTokens">
+): number | undefined {
+  const price = { ...DEFAULT_PRICING, ...config.pricing }[entry.model]
+  if (!price) return undefined
+  return (
+    (entry.promptTokens * price.input + entry.completionTokens * price.output) /
+    1_000_000
+  )
+}
+
+/**
+ * summarizeLedger:
+ * - Totals the calls per step and model, and for the whole run.
+ */
+export function summarizeLedger(config: AgentConfig) {
+  const byStep = new Map<
+    string,
+    LedgerTotals & { step: string; model: string }
+  >()
+  const total: LedgerTotals = {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    latencyMs: 0,
+    costUsd: 0
+  }
+
+  for (const entry of entries) {
+    const key = `${entry.step}\u0000${entry.model}`
+    const row = byStep.get(key) ?? {
+      step: entry.step,
+      model: entry.model,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      latencyMs: 0,
+      costUsd: 0
+    }
+    const cost = estimateCost(config, entry)
+    for (const totals of [row, total]) {
+      totals.calls++
+      totals.promptTokens += entry.promptTokens
+      totals.completionTokens += entry.completionTokens
+      totals.latencyMs += entry.latencyMs
+      // One unpriced call makes the whole total unknown
+      totals.costUsd =
+        cost === undefined || totals.costUsd === undefined
+          ? undefined
+          : totals.costUsd + cost
+    }
+    byStep.set(key, row)
+  }
+
+  return { steps: Array.from(byStep.values()), total }
+}
+
+/**
+ * checkBudget:
+ * - Returns a message explaining which budget was exceeded, or undefined if the run is within budget.
+ * - An unpriced model never exceeds the cost budget, only the token budget.
+ */
+export function checkBudget(config: AgentConfig): string | undefined {
+  const { maxCostUsd, maxTokens } = config.budget
+  const { total } = summarizeLedger(config)
+  const tokens = total.promptTokens + total.completionTokens
+
+  if (maxTokens !== undefined && tokens > maxTokens) {
+    return `Token budget exceeded: ${formatNumber(tokens)} of ${formatNumber(maxTokens)} tokens used.`
+  }
+  if (
+    maxCostUsd !== undefined &&
+    total.costUsd !== undefined &&
+    total.costUsd > maxCostUsd
+  ) {
+    return `Cost budget exceeded: ${formatCost(total.costUsd)} of ${formatCost(maxCostUsd)} spent.`
+  }
+  return undefined
+}
+
+/**
+ * formatCostSummary:
+ * - Renders the ledger as a collapsible Markdown table for the PR comment.
+ */
+export function formatCostSummary(config: AgentConfig): string {
+  const { steps, total } = summarizeLedger(config)
+  const tokens = total.promptTokens + total.completionTokens
+
+  const rows = steps.map(
+    s =>
+      `| ${s.step} | ${s.model} | ${s.calls} | ${formatNumber(s.promptTokens)} | ${formatNumber(s.completionTokens)} | ${formatSeconds(s.latencyMs)} | ${formatCost(s.costUsd)} |`
+  )
+  return [
+    `<details><summary>💰 LLM usage: ${formatNumber(tokens)} tokens, ${formatCost(total.costUsd)} (estimated)</summary>`,
+    "",
+    "| Step | Model | Calls | Prompt tokens | Completion tokens | Latency | Est. cost |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    ...rows,
+    `| **Total** | | ${total.calls} | ${formatNumber(total.promptTokens)} | ${formatNumber(total.completionTokens)} | ${formatSeconds(total.latencyMs)} | ${formatCost(total.costUsd)} |`,
+    "",
+    "</details>"
+  ].join("\n")
+}
+
+/**
+ * writeLedgerReport:
+ * - Writes every call plus the totals to a JSON file, so CI can keep it as an artifact.
+ */
+export function writeLedgerReport(
+  config: AgentConfig,
+  reportPath = LEDGER_REPORT_PATH
+) {
+  const summary = summarizeLedger(config)
+  const report = {
+    calls: entries.map(e => ({ ...e, costUsd: estimateCost(config, e) })),
+    steps: summary.steps,
+    total: summary.total,
+    budget: config.budget,
+    budgetExceeded: checkBudget(config) ?? null
+  }
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true })
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + "\n")
+}
+
+function formatNumber(n: number) {
+  return n.toLocaleString("en-US")
+}
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`
+}
+
+function formatCost(usd: number | undefined) {
+  return usd === undefined ? "n/a" : `$${usd.toFixed(4)}`
+}
@@ -0,0 +1,247 @@
+/**
+ * This module implements the agent's slash commands, posted as PR comments:
+ *
+ * - /ai review              review the whole PR again
+ * - /ai tests [path ...]    generate, run and fix tests, optionally only for some of the changed files
+ * - /ai fix                 run the tests and try to fix the failing ones
+ * - /ai explain <finding>   explain a review finding (or any question about the PR) in a reply
+ * - /ai skip                stop automatic runs on this PR (adds the ai-agent:skip label)
+ *
+ * Only commenters whose association with the repo is in the config's commands.allowedAssociations
+ * can run commands. The agent reacts to the comment: 👀 when it starts, 🚀 or 😕 when it's done,
+ * and 👎 when the commenter isn't allowed.
+ */
+
+import { generateObject } from "ai"
+import { z } from "zod"
+import { AgentConfig } from "./agent-config"
+import { formatFileForReview } from "./code-review"
+import {
+  createComment,
+  formatCommentMarker,
+  isAgentComment,
+  parseComment
+} from "./github-comments"
+import { getLLMCallSettings } from "./llm"
+import { PullRequestContext } from "./pr-context"
+import { UNTRUSTED_DATA_RULES, wrapUntrusted } from "./prompt-safety"
+
+export const COMMAND_NAMES = [
+  "review",
+  "tests",
+  "fix",
+  "explain",
+  "skip"
+] as const
+
+export type CommandName = (typeof COMMAND_NAMES)[number]
+
+// While a PR has this label, the agent doesn't run on its pushes; commands still work
+export const SKIP_LABEL = "ai-agent:skip"
+
+/**
+ * A parsed command.
+ * - name is undefined for an /ai comment with an unknown command.
+ * - args is everything after the command name (including further lines), trimmed.
+ */
+export interface SlashCommand {
+  name?: CommandName
+  args: string
+}
+
+export type CommentReaction = "eyes" | "rocket" | "confused" | "-1" | "+1"
+
+const explanationSchema = z.object({
+  explanation: z.string()
+})
+
+/**
+ * parseSlashCommand:
+ * - Returns the command if the comment's first non-empty line starts with "/ai", otherwise undefined.
+ */
+export function parseSlashCommand(body: string): SlashCommand | undefined {
+  const [firstLine, ...rest] = body.trim().split("\n")
+  const match = firstLine.trim().match(/^\/ai(?:\s+(\S+))?(?:\s+(.*))?$/)
+  if (!match) return undefined
+  const name = (COMMAND_NAMES as readonly string[]).includes(match[1] ?? "")
+    ? (match[1] as CommandName)
+    : undefined
+  return { name, args: [match[2] ?? "", ...rest].join("\n").trim() }
+}
+
+/**
+ * isCommandAllowed:
+ * - Whether a commenter with the given author_association (e.g. "MEMBER") may run commands.
+ */
+export function isCommandAllowed(
+  config: AgentConfig,
+  association: string | undefined
+) {
+  return (
+    config.commands.enabled &&
+    !!association &&
+    config.commands.allowedAssociations.includes(association)
+  )
+}
+
+/**
+ * commandConfig:
+ * - The config for a command's run: only the command's steps are turned on.
+ * - /ai review always reviews the whole PR.
+ */
+export function commandConfig(
+  config: AgentConfig,
+  name: "review" | "tests" | "fix"
+): AgentConfig {
+  const off = {
+    review: false,
+    gating: false,
+    testGeneration: false,
+    testRun: false,
+    testFix: false
+  }
+  const steps = {
+    review: { ...off, review: true },
+    // Asking for tests skips the gating step
+    tests: { ...off, testGeneration: true, testRun: true, testFix: true },
+    fix: { ...off, testRun: true, testFix: true }
+  }[name]
+  return { ...config, steps, incrementalReview: false }
+}
+
+/**
+ * filterChangedFiles:
+ * - Keeps the changed files matching the given paths (a file, or a directory containing it).
+ */
+export function filterChangedFiles(
+  files: PullRequestContext["changedFiles"],
+  paths: string[]
+) {
+  const prefixes = paths.map(p => p.replace(/^\.\//, "").replace(/\/$/, ""))
+  return files.filter(f =>
+    prefixes.some(p => f.filename === p || f.filename.startsWith(`${p}/`))
+  )
+}
+
+/**
+ * reactToComment:
+ * - Adds a reaction to the command's comment. Failing to react never fails the command.
+ */
+export async function reactToComment(
+  octokit: any,
+  owner: string,
+  repo: string,
+  commentId: number,
+  content: CommentReaction
+) {
+  try {
+    await octokit.reactions.createForIssueComment({
+      owner,
+      repo,
+      comment_id: commentId,
+      content
+    })
+  } catch (err) {
+    console.error(`Error reacting to comment ${commentId}:`, err)
+  }
+}
+
+/**
+ * formatCommandHelp:
+ * - The reply to an unknown command.
+ */
+export function formatCommandHelp() {
+  return `### AI Agent\nUnknown command. Available commands:
+- \`/ai review\` review the whole PR again
+- \`/ai tests [path ...]\` generate, run and fix tests (optionally for some changed files only)
+- \`/ai fix\` run the tests and try to fix the failing ones
+- \`/ai explain <finding>\` explain a review finding
+- \`/ai skip\` stop automatic runs on this PR (remove the \`${SKIP_LABEL}\` label to resume)`
+}
+
+/**
+ * handleExplainCommand:
+ * - Asks the LLM to explain a finding (or answer a question) about the PR, given its changes and the latest review.
+ * - Posts the explanation as a reply quoting the question.
+ */
+export async function handleExplainCommand(
+  octokit: any,
+  context: PullRequestContext,
+  question: string
+) {
+  const review = await findLatestReview(octokit, context)
+  const changes = context.changedFiles
+    .map(f => formatFileForReview(f, context.config.reviewBatchTokens))
+    .join("\n---\n")
+    .slice(0, context.config.reviewBatchTokens * 4)
+
+  const system = `
+You are an expert code reviewer. A developer asks about a finding from your review of their pull request.
+Explain the finding: what the problem is, why it matters, and how to fix it, with a short code example if it helps.
+If the question isn't about a finding, answer it based on the PR. Return valid JSON only, with the structure:
+{
+  "explanation": "string (Markdown)"
+}
+
+${UNTRUSTED_DATA_RULES}
+`
+  const prompt = `
+PR Title:
+${wrapUntrusted("title", context.title)}
+Latest review:
+${wrapUntrusted("latest-review", review ?? "(no review yet)")}
+Changed Files:
+${wrapUntrusted("changed-files", changes)}
+Question:
+${wrapUntrusted("command-args", question)}
+`
+  console.log(`\n\n\n\n\n--------------------------------`)
+  console.log(`Explain prompt:\n${system}\n${prompt}`)
+  console.log(`--------------------------------\n\n\n\n\n`)
+
+  const llm = getLLMCallSettings("explain")
+
+  let explanation: string
+  try {
+    const result = await generateObject({
+      ...llm,
+      schema: explanationSchema,
+      schemaName: "explanation",
+      schemaDescription: "An explanation of a code review finding in JSON",
+      system,
+      prompt
+    })
+    explanation = result.object.explanation
+  } catch (err) {
+    console.error("Error explaining finding:", err)
+    explanation = "❌ The explanation could not be generated."
+  }
+
+  const quote = question
+    .split("\n")
+    .map(line => `> ${line}`)
+    .join("\n")
+  await createComment(
+    octokit,
+    context,
+    `${quote}\n\n### AI Explanation\n${explanation}`
+  )
+}
+
+// The current run of the agent's own review comment, without its history
+async function findLatestReview(octokit: any, context: PullRequestContext) {
+  const marker = formatCommentMarker("review")
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner: context.owner,
+    repo: context.repo,
+    issue_number: context.pullNumber,
+    per_page: 100
+  })
+  const comment = comments
+    .filter(
+      (c: any) =>
+        isAgentComment(c, context.config) && (c.body ?? "").includes(marker)
+    )
+    .pop()
+  return comment ? parseComment(comment.body, marker).current : undefined
+}
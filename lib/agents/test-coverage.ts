@@ -0,0 +1,355 @@
+/**
+ * This module measures how well tests cover the lines a PR changes, for the gating step (see test-gating.ts).
+ *
+ * - The tests related to the changed source files run with Jest's coverage (jest --coverage --findRelatedTests),
+ *   once on the head and once on the base: the head with the changed files as they were before the PR.
+ *   Both runs happen in sandboxes (see test-sandbox.ts), so the working tree is never touched. With the sandbox
+ *   disabled, the head runs in the working tree (like the test run) and the base in a plain copy of it.
+ * - A changed line is covered if a test runs it on the head. If no test is related to any changed file, Jest writes
+ *   no coverage report at all; then every changed code line counts as uncovered.
+ * - Tests are generated only if the share of uncovered changed lines is above coverage.maxUncoveredPercent.
+ *   The PR comment shows each file's coverage before and after the PR, and the uncovered lines the new tests target.
+ */
+
+import { execSync } from "child_process"
+import fs from "fs"
+import path from "path"
+import { getPathSettings } from "./agent-config"
+import { gitShow } from "./local-context"
+import { getFileContent, PullRequestContext } from "./pr-context"
+import { wrapUntrusted } from "./prompt-safety"
+import {
+  createSandbox,
+  removeSandbox,
+  runInSandbox,
+  SandboxFile
+} from "./test-sandbox"
+import { isSourceFile, relatedTestsArgs } from "./test-selection"
+
+const COVERAGE_DIR = "reports/jest/coverage"
+const COVERAGE_COMMAND = `npm run test -- --coverage --coverageReporters=json --coverageDirectory=${COVERAGE_DIR}`
+
+const TEST_FILE = /\.(?:test|spec)\.[cm]?[jt]sx?$/
+
+/**
+ * The coverage of one changed file.
+ * - baseCoverage: percent of its lines covered before the PR; undefined for new files or if the base couldn't be measured.
+ * - headCoverage: percent of its lines covered with the PR.
+ * - changedLines: the added or modified lines with code on them.
+ * - uncoveredLines: the changed lines no test runs.
+ */
+export interface FileCoverage {
+  filename: string
+  baseCoverage?: number
+  headCoverage: number
+  changedLines: number[]
+  uncoveredLines: number[]
+}
+
+/**
+ * The coverage of a PR's changed source files.
+ */
+export interface CoverageReport {
+  files: FileCoverage[]
+}
+
+// How often each line ran, by line number
+type LineHits = Map<number, number>
+
+/**
+ * measureCoverage:
+ * - Measures the coverage of the changed source files (those tests are generated for) on the head and the base.
+ * - Returns undefined if the coverage couldn't be measured on the head (e.g. Jest failed to start).
+ */
+export async function measureCoverage(
+  octokit: any,
+  context: PullRequestContext,
+  cwd = process.cwd()
+): Promise<CoverageReport | undefined> {
+  const sources = context.changedFiles.filter(
+    f =>
+      f.status !== "removed" &&
+      isSourceFile(f.filename) &&
+      !TEST_FILE.test(f.filename) &&
+      getPathSettings(context.config, f.filename).tests
+  )
+  if (sources.length === 0) return { files: [] }
+
+  const head = await runCoverage(
+    context,
+    [],
+    sources.map(f => f.filename),
+    cwd
+  )
+  if (!head) return undefined
+
+  const existing = sources.filter(f => f.status !== "added")
+  const base =
+    existing.length > 0
+      ? await runCoverage(
+          context,
+          await buildBaseFiles(octokit, context, cwd),
+          existing.map(f => f.previousFilename ?? f.filename),
+          cwd
+        )
+      : undefined
+
+  return {
+    files: sources.map(file => {
+      const lines = head.get(file.filename)
+      const added = changedLineNumbers(file.patch)
+      let changedLines: number[]
+      if (lines) {
+        changedLines = added.filter(l => lines.has(l))
+      } else {
+        const source = readLines(path.join(cwd, file.filename))
+        changedLines = added.filter(l => isCodeLine(source[l - 1] ?? ""))
+      }
+      return {
+        filename: file.filename,
+        baseCoverage:
+          file.status === "added" || !base
+            ? undefined
+            : percentCovered(base.get(file.previousFilename ?? file.filename)),
+        headCoverage: percentCovered(lines),
+        changedLines,
+        uncoveredLines: changedLines.filter(l => !lines?.get(l))
+      }
+    })
+  }
+}
+
+/**
+ * runCoverage:
+ * - Runs the tests related to the selected files with coverage, in a sandbox holding the given files.
+ * - With the sandbox disabled, runs them without isolation: in the working tree if there are no files
+ *   to put on top of it, else in a plain copy.
+ * - Returns the line hits by file (relative to the repo), or undefined if Jest failed without a report.
+ */
+async function runCoverage(
+  context: PullRequestContext,
+  files: SandboxFile[],
+  selection: string[],
+  cwd: string
+): Promise<Map<string, LineHits> | undefined> {
+  const { enabled, maxWorkers, ...limits } = context.config.sandbox
+  const command = `${COVERAGE_COMMAND} ${relatedTestsArgs(selection)} --maxWorkers=${maxWorkers} 2>&1`
+  if (!enabled && files.length === 0) {
+    // Remove a stale report so we never read the results of a previous run
+    fs.rmSync(path.join(cwd, COVERAGE_DIR), { recursive: true, force: true })
+    return readCoverage(cwd, runUnisolated(command, cwd))
+  }
+
+  const sandbox = createSandbox(files, cwd)
+  try {
+    const result = enabled
+      ? await runInSandbox(sandbox, command, limits)
+      : runUnisolated(command, sandbox.workspace)
+    return readCoverage(sandbox.workspace, result)
+  } finally {
+    removeSandbox(sandbox)
+  }
+}
+
+// Reads the coverage report a run in dir wrote
+function readCoverage(
+  dir: string,
+  result: { exitCode: number | null; output: string }
+): Map<string, LineHits> | undefined {
+  const reportPath = path.join(dir, COVERAGE_DIR, "coverage-final.json")
+  if (fs.existsSync(reportPath)) {
+    return parseCoverageJson(fs.readFileSync(reportPath, "utf8"), dir)
+  }
+  // Without tests related to the files, Jest passes without writing a report: nothing is covered
+  if (result.exitCode === 0) return new Map()
+  console.error(`Could not measure coverage:\n${result.output.slice(-2000)}`)
+  return undefined
+}
+
+// Runs the command in dir as is, like the test run does with the sandbox disabled
+function runUnisolated(command: string, cwd: string) {
+  try {
+    return { exitCode: 0, output: execSync(command, { cwd, encoding: "utf8" }) }
+  } catch (err: any) {
+    return {
+      exitCode: err.status ?? 1,
+      output: [err.stdout, err.stderr].filter(Boolean).join("\n") || err.message
+    }
+  }
+}
+
+/**
+ * buildBaseFiles:
+ * - The files that turn a copy of the head into the base: changed files get their content before the PR,
+ *   added files (and the new paths of renamed ones) are removed.
+ * - Contents are read from the base commit, not from the context, whose file contents may be redacted.
+ */
+async function buildBaseFiles(
+  octokit: any,
+  context: PullRequestContext,
+  cwd: string
+): Promise<SandboxFile[]> {
+  const files: SandboxFile[] = []
+  for (const file of context.changedFiles) {
+    if (getPathSettings(context.config, file.filename).exclude) continue
+    if (file.status === "added" || file.previousFilename) {
+      files.push({ filename: file.filename })
+    }
+    if (file.status === "added") continue
+
+    const baseName = file.previousFilename ?? file.filename
+    const ref = context.baseSha ?? context.baseRef
+    const content = context.local
+      ? gitShow(ref, baseName, cwd)
+      : await getFileContent(
+          octokit,
+          context.owner,
+          context.repo,
+          baseName,
+          ref
+        )
+    if (content !== undefined) files.push({ filename: baseName, content })
+  }
+  return files
+}
+
+/**
+ * parseCoverageJson:
+ * - Converts Jest's coverage-final.json (Istanbul format) into line hits by file, relative to root.
+ * - Like Istanbul's line coverage, a line counts as run if a statement starting on it ran.
+ */
+export function parseCoverageJson(
+  json: string,
+  root: string
+): Map<string, LineHits> {
+  const report = JSON.parse(json)
+  const files = new Map<string, LineHits>()
+  for (const [file, coverage] of Object.entries<any>(report)) {
+    const lines: LineHits = new Map()
+    for (const [id, location] of Object.entries<any>(
+      coverage.statementMap || {}
+    )) {
+      const line = location.start.line
+      lines.set(line, Math.max(lines.get(line) ?? 0, coverage.s?.[id] ?? 0))
+    }
+    files.set(path.relative(root, file).split(path.sep).join("/"), lines)
+  }
+  return files
+}
+
+/**
+ * changedLineNumbers:
+ * - The line numbers (on the head) of the lines a patch adds.
+ */
+export function changedLineNumbers(patch: string) {
+  const lines: number[] = []
+  let newLine = 0
+  for (const line of patch.split("\n")) {
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+    if (hunk) {
+      newLine = parseInt(hunk[1], 10)
+      continue
+    }
+    if (line.startsWith("+")) lines.push(newLine)
+    if (!line.startsWith("-") && !line.startsWith("\\")) newLine++
+  }
+  return lines
+}
+
+/**
+ * uncoveredPercent:
+ * - The share of the changed lines no test runs, from 0 to 100 (0 if no code lines changed).
+ */
+export function uncoveredPercent(report: CoverageReport) {
+  const { changed, uncovered } = countLines(report)
+  return changed === 0 ? 0 : (uncovered / changed) * 100
+}
+
+/**
+ * formatCoverageTable:
+ * - Renders the coverage of the changed lines plus a per-file table of the coverage before and after the PR.
+ */
+export function formatCoverageTable(report: CoverageReport) {
+  const { changed, uncovered } = countLines(report)
+  if (changed === 0) {
+    return "**Coverage**: No changed code lines in files that get tests."
+  }
+
+  let table = `**Coverage**: ${changed - uncovered} of ${changed} changed line(s) covered (${formatPercent(100 - uncoveredPercent(report))})\n\n`
+  table +=
+    "| File | Base | Head | Δ | Changed lines covered | Uncovered changed lines |\n|---|---|---|---|---|---|\n"
+  for (const f of report.files) {
+    const delta =
+      f.baseCoverage === undefined
+        ? "new"
+        : `${f.headCoverage >= f.baseCoverage ? "+" : ""}${(f.headCoverage - f.baseCoverage).toFixed(1)}`
+    const base =
+      f.baseCoverage === undefined ? "–" : formatPercent(f.baseCoverage)
+    table += `| ${f.filename} | ${base} | ${formatPercent(f.headCoverage)} | ${delta} | ${f.changedLines.length - f.uncoveredLines.length}/${f.changedLines.length} | ${formatLineRanges(f.uncoveredLines) || "–"} |\n`
+  }
+  return table
+}
+
+/**
+ * formatUncoveredLines:
+ * - Lists the uncovered changed lines by file, e.g. "- `app/page.tsx`: 12-14, 20", or an empty string.
+ */
+export function formatUncoveredLines(report?: CoverageReport) {
+  return (report?.files ?? [])
+    .filter(f => f.uncoveredLines.length > 0)
+    .map(f => `- \`${f.filename}\`: ${formatLineRanges(f.uncoveredLines)}`)
+    .join("\n")
+}
+
+/**
+ * formatUncoveredPrompt:
+ * - The prompt section listing the uncovered changed lines the new tests should run, or an empty string.
+ */
+export function formatUncoveredPrompt(report?: CoverageReport) {
+  const lines = formatUncoveredLines(report)
+  if (!lines) return ""
+  return `Uncovered Changed Lines (no existing test runs these lines of the changed files):\n${wrapUntrusted("uncovered-lines", lines)}\n`
+}
+
+// Collapses sorted line numbers into ranges, e.g. [12, 13, 14, 20] → "12-14, 20"
+function formatLineRanges(lines: number[]) {
+  const ranges: string[] = []
+  for (let i = 0; i < lines.length; i++) {
+    let end = i
+    while (end + 1 < lines.length && lines[end + 1] === lines[end] + 1) end++
+    ranges.push(end > i ? `${lines[i]}-${lines[end]}` : `${lines[i]}`)
+    i = end
+  }
+  return ranges.join(", ")
+}
+
+function countLines(report: CoverageReport) {
+  return {
+    changed: report.files.reduce((n, f) => n + f.changedLines.length, 0),
+    uncovered: report.files.reduce((n, f) => n + f.uncoveredLines.length, 0)
+  }
+}
+
+function formatPercent(value: number) {
+  return `${value.toFixed(1)}%`
+}
+
+function percentCovered(lines?: LineHits) {
+  if (!lines || lines.size === 0) return 0
+  const covered = [...lines.values()].filter(hits => hits > 0).length
+  return (covered / lines.size) * 100
+}
+
+function readLines(filePath: string) {
+  try {
+    return fs.readFileSync(filePath, "utf8").split("\n")
+  } catch {
+    return []
+  }
+}
+
+// Blank lines and comments never run, so they can't be uncovered
+function isCodeLine(line: string) {
+  const trimmed = line.trim()
+  return trimmed !== "" && !/^(?:\/\/|\/\*|\*)/.test(trimmed)
+}
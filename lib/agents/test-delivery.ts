@@ -0,0 +1,392 @@
+/**
+ * This module delivers test proposals without pushing to the PR's branch, for repos where the agent
+ * may not (or should not) write to contributor branches.
+ *
+ * Delivery modes (the "delivery" setting in the agent config, or an "ai-agent:<mode>" label on the PR):
+ * - "commit": commit to the PR branch (the default; handled by test-proposals.ts).
+ * - "suggest": a pull request review with ```suggestion blocks for changes to test files in the diff;
+ *   anything that can't be a suggestion (new files, files outside the diff) goes into the review body.
+ * - "pull-request": commit to a separate branch and open (or update) a follow-up PR targeting the PR's branch.
+ * - "patch": write a patch file with all proposals to reports/ (kept as a workflow artifact) and show it in the comment.
+ */
+
+import { createTwoFilesPatch, structuredPatch } from "diff"
+import fs from "fs"
+import path from "path"
+import { commitFiles, FileChange } from "./github-commit"
+import { PullRequestContextWithTests } from "./pr-context"
+import { mapPatchPositions } from "./review-comments"
+import { TestProposal } from "./test-proposals"
+
+export type DeliveryMode = "commit" | "suggest" | "pull-request" | "patch"
+
+export const DELIVERY_MODES: DeliveryMode[] = [
+  "commit",
+  "suggest",
+  "pull-request",
+  "patch"
+]
+
+// A PR label like "ai-agent:suggest" overrides the configured mode for that PR
+export const DELIVERY_LABEL_PREFIX = "ai-agent:"
+
+export const PATCH_REPORT_PATH = "reports/ai-agent/ai-tests.patch"
+
+// Keeps review bodies and comments well under GitHub's 65536 character limit
+const MAX_INLINE_CONTENT = 50000
+
+// Patch mode: every proposal delivered in this run, so the patch always holds the latest version of each file
+const patchedProposals = new Map<string, TestProposal>()
+// Pull-request mode: the follow-up branch's current head, once we've created or reset it in this run
+const followUpHeads = new Map<string, string>()
+
+/**
+ * resolveDeliveryMode:
+ * - Returns the mode from the PR's "ai-agent:<mode>" label if there is one, else from the config.
+ */
+export function resolveDeliveryMode(
+  context: PullRequestContextWithTests
+): DeliveryMode {
+  for (const label of context.labels) {
+    const mode = label.startsWith(DELIVERY_LABEL_PREFIX)
+      ? label.slice(DELIVERY_LABEL_PREFIX.length)
+      : undefined
+    if (mode && (DELIVERY_MODES as string[]).includes(mode)) {
+      return mode as DeliveryMode
+    }
+  }
+  return context.config.delivery
+}
+
+/**
+ * deliverTestProposals:
+ * - Delivers the proposals in one of the non-commit modes.
+ * - Returns a short Markdown note for the PR comment saying where the tests went.
+ */
+export async function deliverTestProposals(
+  octokit: any,
+  context: PullRequestContextWithTests,
+  proposals: TestProposal[],
+  title: string,
+  mode: Exclude<DeliveryMode, "commit">
+): Promise<string> {
+  if (mode === "suggest") {
+    return postTestSuggestions(octokit, context, proposals, title)
+  }
+  if (mode === "pull-request") {
+    return commitToFollowUpPR(octokit, context, proposals, title)
+  }
+  return writeTestPatch(context, proposals)
+}
+
+/**
+ * buildSuggestions:
+ * - Turns changes to test files that are part of the PR's diff into review comments with suggestion blocks,
+ *   one per changed block of lines.
+ * - Returns the comments plus the proposals that can't be expressed as suggestions.
+ */
+export function buildSuggestions(
+  context: PullRequestContextWithTests,
+  proposals: TestProposal[]
+) {
+  const comments: {
+    path: string
+    line: number
+    side: "RIGHT"
+    start_line?: number
+    start_side?: "RIGHT"
+    body: string
+  }[] = []
+  const unsuggestable: TestProposal[] = []
+
+  for (const p of proposals) {
+    const current = getBaseContent(context, p.filename)
+    const patch = context.changedFiles.find(
+      f => f.filename === p.filename
+    )?.patch
+    if (isRename(p) || current === undefined || !patch) {
+      unsuggestable.push(p)
+      continue
+    }
+
+    // Suggestions can only cover lines that are part of the PR's diff
+    const positions = mapPatchPositions(patch)
+    const inDiff = (line: number) => positions.has(`RIGHT:${line}`)
+    const currentLines = current.split("\n")
+    const lineCount = current.endsWith("\n")
+      ? currentLines.length - 1
+      : currentLines.length
+    const fileComments: typeof comments = []
+
+    const { hunks } = structuredPatch("", "", current, p.testContent, "", "", {
+      context: 0
+    })
+    for (const hunk of hunks) {
+      const added = hunk.lines
+        .filter(l => l.startsWith("+"))
+        .map(l => l.slice(1))
+      let start = hunk.oldStart
+      let end = hunk.oldStart + hunk.oldLines - 1
+      let replacement = added
+      if (hunk.oldLines === 0) {
+        // A pure insertion is suggested as a change to the line it goes before (jsdiff's oldStart),
+        // or to the last line when it goes at the end of the file
+        if (hunk.oldStart <= lineCount) {
+          start = end = hunk.oldStart
+          replacement = [...added, currentLines[hunk.oldStart - 1]]
+        } else {
+          start = end = lineCount
+          replacement = [currentLines[lineCount - 1], ...added]
+        }
+      }
+      const lines = Array.from({ length: end - start + 1 }, (_, i) => start + i)
+      if (!lines.every(inDiff)) {
+        fileComments.length = 0
+        break
+      }
+      fileComments.push({
+        path: p.filename,
+        line: end,
+        side: "RIGHT",
+        ...(start < end ? { start_line: start, start_side: "RIGHT" } : {}),
+        body: fence("suggestion", replacement.join("\n"))
+      })
+    }
+
+    // A file is either fully covered by suggestions or shown in full in the review body
+    if (fileComments.length === 0) {
+      unsuggestable.push(p)
+    } else {
+      comments.push(...fileComments)
+    }
+  }
+
+  return { comments, unsuggestable }
+}
+
+/**
+ * postTestSuggestions:
+ * - Posts one "COMMENT" review: suggestions inline, and the full content of every other proposal in the body.
+ * - If GitHub rejects the inline comments, retries with everything in the body.
+ */
+async function postTestSuggestions(
+  octokit: any,
+  context: PullRequestContextWithTests,
+  proposals: TestProposal[],
+  title: string
+): Promise<string> {
+  const { comments, unsuggestable } = buildSuggestions(context, proposals)
+  const review = {
+    owner: context.owner,
+    repo: context.repo,
+    pull_number: context.pullNumber,
+    commit_id: context.headSha,
+    event: "COMMENT"
+  }
+
+  try {
+    await octokit.pulls.createReview({
+      ...review,
+      body: formatProposalsBody(title, unsuggestable),
+      comments
+    })
+    return `Delivered as a review: ${comments.length} suggestion(s), ${unsuggestable.length} file(s) in the review body.`
+  } catch (err: any) {
+    if (err.status !== 422) throw err
+    console.error(
+      "Test suggestions rejected, posting the proposals in the review body:",
+      err.message
+    )
+    await octokit.pulls.createReview({
+      ...review,
+      body: formatProposalsBody(title, proposals)
+    })
+    return `Delivered as a review: ${proposals.length} file(s) in the review body.`
+  }
+}
+
+/**
+ * commitToFollowUpPR:
+ * - Commits the proposals to the "ai-agent/tests-for-pr-<number>" branch, created from (or, on a new run,
+ *   reset to) the PR's head.
+ * - Opens a PR from that branch into the PR's branch, or reuses the open one.
+ */
+async function commitToFollowUpPR(
+  octokit: any,
+  context: PullRequestContextWithTests,
+  proposals: TestProposal[],
+  title: string
+): Promise<string> {
+  const branch = `ai-agent/tests-for-pr-${context.pullNumber}`
+  const key = `${context.owner}/${context.repo}/${branch}`
+
+  let head = followUpHeads.get(key)
+  if (!head) {
+    // The branch only ever holds our tests, so each run starts it over from the PR's head
+    try {
+      await octokit.git.createRef({
+        owner: context.owner,
+        repo: context.repo,
+        ref: `refs/heads/${branch}`,
+        sha: context.headSha
+      })
+    } catch (err: any) {
+      // 422: the branch exists from an earlier run
+      if (err.status !== 422) throw err
+      await octokit.git.updateRef({
+        owner: context.owner,
+        repo: context.repo,
+        ref: `heads/${branch}`,
+        sha: context.headSha,
+        force: true
+      })
+    }
+    head = context.headSha
+  }
+
+  head = await commitFiles(octokit, {
+    owner: context.owner,
+    repo: context.repo,
+    branch,
+    expectedHeadSha: head,
+    message: title,
+    changes: toFileChanges(proposals)
+  })
+  followUpHeads.set(key, head)
+
+  const { data: open } = await octokit.pulls.list({
+    owner: context.owner,
+    repo: context.repo,
+    head: `${context.owner}:${branch}`,
+    state: "open"
+  })
+  if (open.length > 0) {
+    return `Updated the follow-up PR #${open[0].number} with the tests.`
+  }
+
+  const { data: pr } = await octokit.pulls.create({
+    owner: context.owner,
+    repo: context.repo,
+    title: `AI-generated tests for #${context.pullNumber}`,
+    head: branch,
+    base: context.headRef,
+    body: `Tests proposed by the AI Agent for #${context.pullNumber}.\n\nMerge this PR to add them to \`${context.headRef}\`.`
+  })
+  return `Opened the follow-up PR #${pr.number} with the tests.`
+}
+
+/**
+ * writeTestPatch:
+ * - Writes a git-applicable patch with every proposal delivered so far to PATCH_REPORT_PATH.
+ * - Returns a note with the patch inline (if it isn't too large).
+ */
+function writeTestPatch(
+  context: PullRequestContextWithTests,
+  proposals: TestProposal[]
+): string {
+  for (const p of proposals) patchedProposals.set(p.filename, p)
+
+  const patch = buildTestPatch(context, Array.from(patchedProposals.values()))
+  fs.mkdirSync(path.dirname(PATCH_REPORT_PATH), { recursive: true })
+  fs.writeFileSync(PATCH_REPORT_PATH, patch, "utf8")
+
+  const note = `Patch written to \`${PATCH_REPORT_PATH}\` (in the \`ai-agent-report\` workflow artifact). Apply it with \`git apply ${path.basename(PATCH_REPORT_PATH)}\`.`
+  if (patch.length > MAX_INLINE_CONTENT) {
+    return `${note}\n\n_The patch is too large to show here._`
+  }
+  return `${note}\n\n<details><summary>Patch</summary>\n\n${fence("diff", patch)}\n\n</details>`
+}
+
+/**
+ * buildTestPatch:
+ * - Renders the proposals as a unified diff against the PR's head (new files come from /dev/null).
+ */
+export function buildTestPatch(
+  context: PullRequestContextWithTests,
+  proposals: TestProposal[]
+): string {
+  const patches: string[] = []
+  for (const p of proposals) {
+    if (isRename(p)) {
+      const old = getBaseContent(context, p.actions.oldFilename)
+      if (old !== undefined) {
+        patches.push(
+          filePatch(`a/${p.actions.oldFilename}`, "/dev/null", old, "")
+        )
+      }
+    }
+    const current = getBaseContent(context, p.filename)
+    patches.push(
+      filePatch(
+        current === undefined ? "/dev/null" : `a/${p.filename}`,
+        `b/${p.filename}`,
+        current ?? "",
+        p.testContent
+      )
+    )
+  }
+  return patches.join("")
+}
+
+function filePatch(
+  oldName: string,
+  newName: string,
+  oldContent: string,
+  newContent: string
+) {
+  // Drop the "====" separator jsdiff puts above each file; git apply only needs the ---/+++ lines
+  const patch = createTwoFilesPatch(oldName, newName, oldContent, newContent)
+  return patch.slice(patch.indexOf("--- "))
+}
+
+function toFileChanges(proposals: TestProposal[]): FileChange[] {
+  return proposals.flatMap(p => [
+    ...(isRename(p) ? [{ path: p.actions.oldFilename }] : []),
+    { path: p.filename, content: p.testContent }
+  ])
+}
+
+// The content of a test file at the PR's head, if it exists
+function getBaseContent(
+  context: PullRequestContextWithTests,
+  filename: string
+) {
+  return context.existingTestFiles.find(f => f.filename === filename)?.content
+}
+
+function isRename(p: TestProposal) {
+  return (
+    p.actions?.action === "rename" &&
+    !!p.actions.oldFilename &&
+    p.actions.oldFilename !== p.filename
+  )
+}
+
+function formatProposalsBody(title: string, proposals: TestProposal[]) {
+  let body = `### ${title}`
+  let size = body.length
+  for (const p of proposals) {
+    const from = isRename(p) ? ` (renamed from ${p.actions.oldFilename})` : ""
+    const block = `\n\n<details><summary>${p.filename}${from}</summary>\n\n${fence(
+      path.extname(p.filename).slice(1),
+      p.testContent
+    )}\n\n</details>`
+    if (size + block.length > MAX_INLINE_CONTENT) {
+      body += `\n\n_${p.filename} is too large to show here; use the "patch" delivery mode instead._`
+      continue
+    }
+    body += block
+    size += block.length
+  }
+  return body
+}
+
+// Wraps text in a code fence longer than any backtick run inside it
+function fence(info: string, text: string) {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) || []).map(run => run.length)
+  )
+  const ticks = "`".repeat(longest + 1)
+  return `${ticks}${info}\n${text}\n${ticks}`
+}
@@ -1,44 +1,236 @@
 /**
  * This file implements the logic for attempting to "fix" failing tests in an iterative loop.
- * If tests fail, we provide the test error output to the AI model,
- * letting it refine or create new test code to address the failures.
+ * If tests fail, we give the AI model only the failing tests: their files, failure messages and
+ * stack traces (from the structured test results), plus the tests it proposed previously,
+ * and ask it for targeted edits.
+ *
+ * Only a short summary of each fix ends up in the PR comment; the full prompt is logged to the console.
+ * Like the PR's files, the failures, test files and proposals are redacted before they reach the prompt (see redaction.ts).
  */
 
+import { generateObject } from "ai"
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+import { updateComment } from "./github-comments"
+import { getLLMCallSettings } from "./llm"
 import { PullRequestContextWithTests } from "./pr-context"
-import { handleTestGeneration } from "./test-proposals"
+import {
+  formatRejectedOutputs,
+  UNTRUSTED_DATA_RULES,
+  validateTestProposals,
+  wrapUntrusted
+} from "./prompt-safety"
+import { redactFileContent, redactText } from "./redaction"
+import { applyTestProposals, TestProposal } from "./test-proposals"
+import { getFailedTests, TestCaseResult, TestRunResult } from "./test-runner"
+import { gateTestProposals } from "./test-static-checks"
+
+// The shape of the fix we expect from the LLM: full new content for each test file it edits
+const testFixSchema = z.object({
+  summary: z.string(),
+  edits: z.array(
+    z.object({
+      filename: z.string(),
+      testContent: z.string(),
+      explanation: z.string()
+    })
+  )
+})
+
+type TestFix = z.infer<typeof testFixSchema>
 
 /**
  * handleTestFix:
  * - Called when our main test loop sees a failing result.
- * - We build a prompt that includes the failing test output and ask the AI to fix or generate improved tests.
- * - Internally, this calls the same "handleTestGeneration" but with a special "fixPrompt" appended.
+ * - Collects the failing tests (and the files they live in) from the structured test results.
+ * - Asks the LLM for targeted edits to those files, given the failures and the previous proposals.
+ * - Applies the edits (commit or local write) and adds a short summary to the PR comment.
+ * - Returns the updated proposal list and comment body for the next iteration.
  */
 export async function handleTestFix(
   octokit: any,
   context: PullRequestContextWithTests,
   iteration: number,
-  testErrorOutput: string,
+  testResult: TestRunResult,
+  previousProposals: TestProposal[],
   testCommentId: number,
   testBody: string
-) {
-  // We pass the test error output to the AI so it knows what's failing
-  const fixPrompt = `
-We have failing tests (attempt #${iteration}).
-Here is the error output:
-${testErrorOutput}
-
-Please fix or create new tests as needed, returning JSON in the same format.
+): Promise<{ proposals: TestProposal[]; testBody: string }> {
+  const failures = getFailedTests(testResult)
+  const fix = await generateTestFix(
+    context,
+    iteration,
+    failures,
+    testResult.output,
+    previousProposals
+  )
+
+  // Only test files may be edited by a fix (see validateTestProposals below),
+  // and only the failing ones when we know which they are
+  const failingFiles = new Set(failures.map(f => f.file).filter(Boolean))
+  const edits = fix.edits.filter(
+    e => failingFiles.size === 0 || failingFiles.has(e.filename)
+  )
+  const { accepted, rejected } = validateTestProposals(
+    context.config,
+    edits.map(e => ({
+      filename: e.filename,
+      testContent: e.testContent,
+      actions: {
+        action:
+          previousProposals.some(p => p.filename === e.filename) ||
+          fs.existsSync(path.join(process.cwd(), e.filename))
+            ? "update"
+            : "create",
+        oldFilename: ""
+      }
+    }))
+  )
+
+  // A fix must type-check and lint cleanly too
+  const checked = await gateTestProposals(context, accepted)
+  const fixProposals = checked.proposals
+
+  if (fixProposals.length > 0) {
+    const delivery = await applyTestProposals(
+      octokit,
+      context,
+      fixProposals,
+      `Fix failing AI-generated tests (attempt #${iteration})`
+    )
+    testBody += `\n\n${fix.summary}\n`
+    for (const e of edits) {
+      if (fixProposals.some(p => p.filename === e.filename)) {
+        testBody += `- ${e.filename}: ${e.explanation}\n`
+      }
+    }
+    if (delivery) testBody += `\n${delivery}\n`
+  } else {
+    testBody += "\n\nNo fix proposed by AI."
+  }
+  testBody += formatRejectedOutputs(rejected) + checked.note
+  await updateComment(octokit, context, testCommentId, testBody)
+
+  // The fixed files replace the previous versions of the same files
+  const proposals = [
+    ...previousProposals.filter(
+      p => !fixProposals.some(f => f.filename === p.filename)
+    ),
+    ...fixProposals
+  ]
+  return { proposals, testBody }
+}
+
+/**
+ * generateTestFix:
+ * - Builds the fix prompt from the failures, the current content of the failing test files,
+ *   the previous proposals and the changed source files.
+ * - Returns the edits the model suggests, or no edits if the response can't be parsed.
+ */
+async function generateTestFix(
+  context: PullRequestContextWithTests,
+  iteration: number,
+  failures: TestCaseResult[],
+  testErrorOutput: string,
+  previousProposals: TestProposal[]
+): Promise<TestFix> {
+  const failingFiles = Array.from(new Set(failures.map(f => f.file))).filter(
+    Boolean
+  )
+
+  const { config } = context
+  const failuresPrompt = redactText(
+    config,
+    failures.length > 0
+      ? failures
+          .map(
+            f =>
+              `Test: ${f.fullName}\nFile: ${f.file}${f.line ? `:${f.line}` : ""}\nMessage:\n${f.failureMessage ?? ""}\nStack:\n${f.stack ?? ""}`
+          )
+          .join("\n---\n")
+      : // If we couldn't parse anything, the raw output is the best we have
+        testErrorOutput
+  )
+
+  const failingFilesPrompt = failingFiles
+    .map(file => {
+      // Generated files only exist in the test sandbox, so the proposals come first
+      const proposal = previousProposals.find(p => p.filename === file)
+      const localPath = path.join(process.cwd(), file)
+      const content = proposal
+        ? proposal.testContent
+        : fs.existsSync(localPath)
+          ? fs.readFileSync(localPath, "utf8")
+          : "[FILE NOT FOUND]"
+      return `Failing test file: ${file}\n---\n${redactFileContent(config, file, content)}`
+    })
+    .join("\n")
+
+  const previousProposalsPrompt = previousProposals
+    .map(
+      p =>
+        `Previous proposal: ${p.filename}\n---\n${redactFileContent(config, p.filename, p.testContent)}`
+    )
+    .join("\n")
+
+  const changedFilesPrompt = context.changedFiles
+    .map(file => {
+      if (file.excluded) return `File: ${file.filename} [EXCLUDED FROM PROMPT]`
+      return `File: ${file.filename}\nContent:\n${file.content}`
+    })
+    .join("\n---\n")
+
+  const system = `
+You are an expert developer fixing failing unit tests (attempt #${iteration}).
+
+Only edit test files in the ${config.testDir} directory. Never change the source code under test.
+Only return edits for files that need to change, with the full new content of each file.
+Prefer fixing the test over deleting it, unless the test asserts behavior the code doesn't have.
+
+Return only valid JSON matching this structure:
+{
+  "summary": "string",
+  "edits": [
+    {
+      "filename": "string",
+      "testContent": "string",
+      "explanation": "string"
+    }
+  ]
+}
+
+${UNTRUSTED_DATA_RULES}
+`
+  const prompt = `
+Failures:
+${wrapUntrusted("test-output", failuresPrompt)}
+Failing Test Files:
+${wrapUntrusted("failing-tests", failingFilesPrompt)}
+Previous Proposals:
+${wrapUntrusted("previous-proposals", previousProposalsPrompt)}
+Code Under Test:
+${wrapUntrusted("changed-files", changedFilesPrompt)}
 `
   console.log(`\n\n\n\n\n--------------------------------`)
-  console.log(`Test fix prompt:\n${fixPrompt}`)
+  console.log(`Test fix prompt:\n${system}\n${prompt}`)
   console.log(`--------------------------------\n\n\n\n\n`)
-
-  // Under the hood, handleTestGeneration will commit the newly proposed test changes
-  await handleTestGeneration(
-    octokit,
-    context,
-    undefined,
-    testCommentId,
-    testBody + fixPrompt
-  )
+  const llm = getLLMCallSettings("fix")
+  try {
+    const result = await generateObject({
+      ...llm,
+      schema: testFixSchema,
+      schemaName: "testFix",
+      schemaDescription: "Targeted edits to failing test files in JSON",
+      system,
+      prompt
+    })
+    console.log(`\n\n\n\n\n--------------------------------`)
+    console.log(`Test fix result:\n${JSON.stringify(result.object, null, 2)}`)
+    console.log(`--------------------------------\n\n\n\n\n`)
+    return result.object
+  } catch (err) {
+    // If there's a parse error, we propose no edits
+    return { summary: "Test fix parse error", edits: [] }
+  }
 }
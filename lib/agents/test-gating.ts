@@ -1,16 +1,26 @@
 /**
  * This file implements a "gating" step:
  * Before we generate or fix tests, we decide whether test generation is needed at all.
- * The LLM returns a boolean plus a reasoning.
- * If it says "false," we skip test generation and end the workflow.
+ * With coverage enabled, the coverage of the changed lines decides (see test-coverage.ts).
+ * Otherwise, or if coverage can't be measured, the LLM returns a boolean plus a reasoning.
+ * If the answer is "false," we skip test generation and end the workflow.
  */
 
 import { generateObject } from "ai"
 import { z } from "zod"
+import { describeScope, getPathSettings } from "./agent-config"
 import { ReviewAnalysis } from "./code-review"
 import { updateComment } from "./github-comments"
-import { getLLMModel } from "./llm"
-import { PullRequestContextWithTests } from "./pr-context"
+import { getLLMCallSettings } from "./llm"
+import { formatFileHeader, PullRequestContextWithTests } from "./pr-context"
+import { UNTRUSTED_DATA_RULES, wrapUntrusted } from "./prompt-safety"
+import { redactFileContent } from "./redaction"
+import {
+  CoverageReport,
+  formatCoverageTable,
+  measureCoverage,
+  uncoveredPercent
+} from "./test-coverage"
 
 // We define a simple schema for the gating decision JSON.
 const gatingSchema = z.object({
@@ -24,7 +34,9 @@ const gatingSchema = z.object({
 /**
  * gatingStep:
  * - Posts a comment indicating that we're checking if test generation is necessary.
- * - Calls gatingStepLogic to evaluate the PR changes, existing tests, and code review notes.
+ * - With coverage enabled, measures the coverage of the changed lines, adds the coverage table to the comment
+ *   and lets it decide. The coverage is kept on the context, so test generation can target the uncovered lines.
+ * - Otherwise calls gatingStepLogic to evaluate the PR changes, existing tests, and code review notes.
  * - If the gating says "no," we skip test generation.
  * - Returns an object with `shouldGenerate`, plus any updated comment body text.
  */
@@ -38,11 +50,30 @@ export async function gatingStep(
   testBody += "\n\n**Gating Step**: Checking if we should generate tests..."
   await updateComment(octokit, context, testCommentId, testBody)
 
-  // Evaluate the gating logic (calls the LLM)
-  const gating = await gatingStepLogic(context, reviewAnalysis)
+  // Measure the coverage of the changed lines; if that fails, the LLM decides
+  let coverage: CoverageReport | undefined
+  if (context.config.coverage.enabled) {
+    try {
+      coverage = await measureCoverage(octokit, context)
+    } catch (err) {
+      // e.g. the sandbox can't isolate the run on this machine
+      console.error("Could not measure coverage, the LLM decides instead:", err)
+    }
+  }
+  if (coverage) {
+    context.coverage = coverage
+    testBody += `\n\n${formatCoverageTable(coverage)}`
+  }
+
+  // Evaluate the gating logic (calls the LLM without coverage)
+  const gating = coverage
+    ? coverageGatingLogic(context, coverage)
+    : await gatingStepLogic(context, reviewAnalysis)
   if (!gating.shouldGenerate) {
     testBody += `\n\nSkipping test generation: ${gating.reason}`
     await updateComment(octokit, context, testCommentId, testBody)
+  } else if (coverage) {
+    testBody += `\n\nGenerating tests: ${gating.reason}`
   }
 
   return {
@@ -52,6 +83,26 @@ export async function gatingStep(
   }
 }
 
+/**
+ * coverageGatingLogic:
+ * - Tests are needed if the share of uncovered changed lines is above coverage.maxUncoveredPercent.
+ */
+function coverageGatingLogic(
+  context: PullRequestContextWithTests,
+  coverage: CoverageReport
+) {
+  const uncovered = uncoveredPercent(coverage)
+  const threshold = context.config.coverage.maxUncoveredPercent
+  const shouldGenerate = uncovered > threshold
+  return {
+    shouldGenerate,
+    reason: `${uncovered.toFixed(1)}% of the changed lines are not covered by tests (threshold: ${threshold}%).`,
+    recommendation: shouldGenerate
+      ? "Add tests that run the uncovered changed lines."
+      : ""
+  }
+}
+
 /**
  * gatingStepLogic:
  * - Builds a prompt that includes the changed files, existing tests, and the code review analysis.
@@ -64,31 +115,40 @@ async function gatingStepLogic(
 ) {
   // Summaries of existing tests
   const existingTestsPrompt = context.existingTestFiles
-    .map(f => `Existing test: ${f.filename}\n---\n${f.content}`)
+    .map(
+      f =>
+        `Existing test: ${f.filename}\n---\n${redactFileContent(context.config, f.filename, f.content)}`
+    )
     .join("\n")
 
   // Summaries of changed files
   const changedFilesPrompt = context.changedFiles
     .map(file => {
-      if (file.excluded) return `File: ${file.filename} [EXCLUDED]`
-      return `File: ${file.filename}\nPatch:\n${file.patch}\nContent:\n${file.content}`
+      const name = formatFileHeader(file)
+      if (file.excluded) return `${name} [EXCLUDED]`
+      if (!getPathSettings(context.config, file.filename).tests)
+        return `${name} [NO TESTS NEEDED]`
+      return `${name}\nPatch:\n${file.patch}\nContent:\n${file.content ?? "[NOT FETCHED]"}`
     })
     .join("\n---\n")
 
   let combinedRec = ""
   if (reviewAnalysis) {
-    combinedRec = "Review Analysis:\n" + reviewAnalysis.summary
+    combinedRec =
+      "Review Analysis:\n" +
+      wrapUntrusted("review-summary", reviewAnalysis.summary)
   }
 
-  // We want the LLM to respond with structured JSON telling us if we should generate tests
-  const prompt = `
+  // We want the LLM to respond with structured JSON telling us if we should generate tests.
+  // The instructions go into the system message; the PR's content is untrusted data.
+  const system = `
 You are an expert in deciding if tests are needed.
 
 If you see *anything* new that should be tested or that breaks any existing tests, you should return true. Be thorough in your analysis.
 
-You only generate tests for frontend related code in the /app directory.
+You only generate tests for frontend related code in ${describeScope(context.config)}.
 
-You only generate unit tests in the __tests__/unit directory.
+You only generate unit tests in the ${context.config.testDir} directory.
 
 Return JSON only:
 {
@@ -99,26 +159,31 @@ Return JSON only:
   }
 }
 
-Title: ${context.title}
+${UNTRUSTED_DATA_RULES}
+`
+  const prompt = `
+Title:
+${wrapUntrusted("title", context.title)}
 Commits:
-${context.commitMessages.map(m => `- ${m}`).join("\n")}
+${wrapUntrusted("commits", context.commitMessages.map(m => `- ${m}`).join("\n"))}
 Changed Files:
-${changedFilesPrompt}
+${wrapUntrusted("changed-files", changedFilesPrompt)}
 Existing Tests:
-${existingTestsPrompt}
+${wrapUntrusted("existing-tests", existingTestsPrompt)}
 ${combinedRec}
 `
   console.log(`\n\n\n\n\n--------------------------------`)
-  console.log(`Gating prompt:\n${prompt}`)
+  console.log(`Gating prompt:\n${system}\n${prompt}`)
   console.log(`--------------------------------\n\n\n\n\n`)
-  const model = getLLMModel()
+  const llm = getLLMCallSettings("gating")
 
   try {
     const result = await generateObject({
-      model,
+      ...llm,
       schema: gatingSchema,
       schemaName: "decision",
       schemaDescription: "Decision for test generation",
+      system,
       prompt
     })
     console.log(`\n\n\n\n\n--------------------------------`)
@@ -8,14 +8,29 @@
  */
 
 import { generateObject } from "ai"
-import { Buffer } from "buffer"
 import fs from "fs"
 import path from "path"
 import { z } from "zod"
+import { describeScope, getPathSettings } from "./agent-config"
 import { ReviewAnalysis } from "./code-review"
+import { commitFiles, FileChange } from "./github-commit"
 import { updateComment } from "./github-comments"
-import { getLLMModel } from "./llm"
-import { PullRequestContextWithTests } from "./pr-context"
+import { formatRelatedFiles } from "./import-graph"
+import { getLLMCallSettings } from "./llm"
+import { formatCommitMarker } from "./loop-guard"
+import { formatFileHeader, PullRequestContextWithTests } from "./pr-context"
+import {
+  allowedTestRoots,
+  assertTestProposals,
+  formatRejectedOutputs,
+  UNTRUSTED_DATA_RULES,
+  validateTestProposals,
+  wrapUntrusted
+} from "./prompt-safety"
+import { redactFileContent } from "./redaction"
+import { formatUncoveredLines, formatUncoveredPrompt } from "./test-coverage"
+import { deliverTestProposals, resolveDeliveryMode } from "./test-delivery"
+import { gateTestProposals } from "./test-static-checks"
 
 // The shape of the test proposals we expect from the LLM
 const testProposalsSchema = z.object({
@@ -45,8 +60,11 @@ export interface TestProposal {
  * handleTestGeneration:
  * - Posts a status update comment about generating tests.
  * - Calls generateTestsForChanges to produce new or updated test files from the LLM.
- * - Then commits those changes to the PR branch with commitTests.
+ * - Drops proposals that aren't test files in the test directory (see prompt-safety.ts).
+ * - Type-checks and lints the rest, letting the LLM repair errors; files still failing are dropped (see test-static-checks.ts).
+ * - Then commits those changes to the PR branch in a single commit (see commitTests).
  * - Finally updates the comment with the list of newly created/updated test files.
+ * - Returns the proposals (so a later fix can build on them) and the updated comment body.
  */
 export async function handleTestGeneration(
   octokit: any,
@@ -54,7 +72,7 @@ export async function handleTestGeneration(
   reviewAnalysis: ReviewAnalysis | undefined,
   testCommentId: number,
   testBody: string
-) {
+): Promise<{ proposals: TestProposal[]; testBody: string }> {
   testBody += "\n\n**Generating Tests**..."
   await updateComment(octokit, context, testCommentId, testBody)
 
@@ -63,28 +81,92 @@ export async function handleTestGeneration(
     recommendation = `Review Analysis:\n${reviewAnalysis.summary}`
   }
 
-  // We get an array of test proposals from the AI
-  const proposals = await generateTestsForChanges(context, recommendation)
+  // We get an array of test proposals from the AI, and only keep those within the policy
+  const { accepted, rejected } = validateTestProposals(
+    context.config,
+    await generateTestsForChanges(context, recommendation)
+  )
+  // Only tests that type-check and lint cleanly (possibly after repairs) are committed
+  const checked = await gateTestProposals(context, accepted)
+  const { proposals } = checked
 
   if (proposals.length > 0) {
-    // We commit each test file creation/update
-    await commitTests(
+    const delivery = await applyTestProposals(
       octokit,
-      context.owner,
-      context.repo,
-      context.headRef,
-      proposals
+      context,
+      proposals,
+      `Add AI-generated tests for PR #${context.pullNumber}`
     )
     testBody += "\n\n**Proposed new/updated tests:**\n"
     for (const p of proposals) {
       testBody += `- ${p.filename}\n`
     }
+    const uncovered = formatUncoveredLines(context.coverage)
+    if (uncovered) {
+      testBody += `\n**Targeted uncovered lines:**\n${uncovered}\n`
+    }
+    if (delivery) testBody += `\n${delivery}\n`
   } else {
     testBody += "\n\nNo new test proposals from AI."
   }
+  testBody += formatRejectedOutputs(rejected) + checked.note
 
   // Update the comment on GitHub
   await updateComment(octokit, context, testCommentId, testBody)
+
+  return { proposals, testBody }
+}
+
+/**
+ * applyTestProposals:
+ * - Commits the proposals to the PR branch as one commit with the given title,
+ *   or only writes them to the working tree in local mode.
+ * - In the other delivery modes (suggestions, follow-up PR, patch) the PR branch is left alone
+ *   and a note saying where the tests went is returned for the PR comment.
+ * - A PR from a fork gets suggestions instead of a commit or a follow-up PR, since its branch isn't in this repo.
+ * - Committed proposals only reach the working tree if the tests run there (sandbox disabled);
+ *   otherwise the test runner puts them into its sandbox.
+ * - Shared by test generation and the test fix loop.
+ * - Throws a BranchMovedError if someone pushed to the branch while the agent was running.
+ */
+export async function applyTestProposals(
+  octokit: any,
+  context: PullRequestContextWithTests,
+  proposals: TestProposal[],
+  title: string
+): Promise<string | undefined> {
+  // Whoever built the proposals, nothing but test files is ever written or deleted
+  assertTestProposals(context.config, proposals)
+
+  if (context.local) {
+    // In local mode we only touch the working tree
+    writeTestsLocally(proposals)
+    return undefined
+  }
+
+  let note: string | undefined
+  let mode = resolveDeliveryMode(context)
+  let forkNote = ""
+  if (context.fork && (mode === "commit" || mode === "pull-request")) {
+    // Both need the PR's branch in this repo: commit pushes to it, pull-request opens a PR into it
+    forkNote = `_This PR comes from a fork, which the agent can't push to, so the tests are delivered as suggestions instead of with the \`${mode}\` mode._\n\n`
+    mode = "suggest"
+  }
+  if (mode === "commit") {
+    // All proposals go into one commit, which becomes the head later commits build on
+    context.headSha = await commitTests(octokit, context, proposals, title)
+    // Recorded (hidden) in the comment, so the run our push triggers knows it's ours
+    note = formatCommitMarker(context.headSha)
+  } else {
+    note =
+      forkNote +
+      (await deliverTestProposals(octokit, context, proposals, title, mode))
+  }
+
+  if (!context.config.sandbox.enabled) {
+    writeTestsLocally(proposals)
+  }
+  return note
 }
 
 /**
@@ -99,23 +181,32 @@ async function generateTestsForChanges(
   recommendation: string
 ): Promise<TestProposal[]> {
   const existingTestsPrompt = context.existingTestFiles
-    .map(f => `Existing test: ${f.filename}\n---\n${f.content}`)
+    .map(
+      f =>
+        `Existing test: ${f.filename}\n---\n${redactFileContent(context.config, f.filename, f.content)}`
+    )
     .join("\n")
 
   const changedFilesPrompt = context.changedFiles
     .map(file => {
-      if (file.excluded) return `File: ${file.filename} [EXCLUDED FROM PROMPT]`
-      return `File: ${file.filename}\nPatch:\n${file.patch}\nContent:\n${file.content}`
+      const name = formatFileHeader(file)
+      if (file.excluded) return `${name} [EXCLUDED FROM PROMPT]`
+      if (!getPathSettings(context.config, file.filename).tests)
+        return `${name} [NO TESTS NEEDED]`
+      return `${name}\nPatch:\n${file.patch}\nContent:\n${file.content ?? "[NOT FETCHED]"}`
     })
     .join("\n---\n")
 
   // The LLM prompt: includes the code changes, existing tests, and any recommended improvements from code review
-  const prompt = `
+  // The instructions go into the system message; the PR's content is untrusted data
+  const system = `
 You are an expert developer specializing in test generation.
 
-You only generate tests for frontend related code in the /app directory.
+You only generate tests for frontend related code in ${describeScope(context.config)}.
+
+You only generate unit tests in the ${context.config.testDir} directory.
 
-You only generate unit tests in the __tests__/unit directory.
+If uncovered changed lines are listed, make sure the tests run them.
 
 Return only valid JSON matching this structure:
 {
@@ -131,28 +222,33 @@ Return only valid JSON matching this structure:
   ]
 }
 
+${UNTRUSTED_DATA_RULES}
+`
+  const prompt = `
 Recommendation:
-${recommendation}
+${wrapUntrusted("recommendation", recommendation)}
 
-Title: ${context.title}
+Title:
+${wrapUntrusted("title", context.title)}
 Commits:
-${context.commitMessages.map(m => `- ${m}`).join("\n")}
+${wrapUntrusted("commits", context.commitMessages.map(m => `- ${m}`).join("\n"))}
 Changed Files:
-${changedFilesPrompt}
-Existing Tests:
-${existingTestsPrompt}
+${wrapUntrusted("changed-files", changedFilesPrompt)}
+${formatUncoveredPrompt(context.coverage)}${formatRelatedFiles(context.relatedFiles)}Existing Tests:
+${wrapUntrusted("existing-tests", existingTestsPrompt)}
 `
   console.log(`\n\n\n\n\n--------------------------------`)
-  console.log(`Test proposals prompt:\n${prompt}`)
+  console.log(`Test proposals prompt:\n${system}\n${prompt}`)
   console.log(`--------------------------------\n\n\n\n\n`)
-  const modelInfo = getLLMModel()
+  const llm = getLLMCallSettings("proposals")
   try {
     // Attempt to parse the LLM's JSON into our schema
     const result = await generateObject({
-      model: modelInfo,
+      ...llm,
       schema: testProposalsSchema,
       schemaName: "testProposals",
       schemaDescription: "Proposed test files in JSON",
+      system,
       prompt
     })
     console.log(`\n\n\n\n\n--------------------------------`)
@@ -170,7 +266,7 @@ ${existingTestsPrompt}
 /**
  * finalizeTestProposals:
  * - Adjusts test file naming or paths to ensure they adhere to typical patterns (e.g. .test.tsx for React).
- * - Ensures tests end up under __tests__/unit/ if not specified.
+ * - Ensures tests end up under the configured test directory (__tests__/unit/ by default) if not in a test root.
  */
 function finalizeTestProposals(
   rawProposals: TestProposal[],
@@ -197,9 +293,16 @@ function finalizeTestProposals(
       newFilename = newFilename.replace(/\.test\.tsx$/, ".test.ts")
     }
 
-    // Ensure the file is placed in __tests__/unit if not already
-    if (!newFilename.includes("__tests__/unit")) {
-      newFilename = `__tests__/unit/${newFilename}`
+    // Place relative paths outside the test roots in the test directory. Absolute paths and
+    // paths with ".." are left as they are, for validateTestProposals to reject.
+    const inTestRoot = allowedTestRoots(context.config).some(root =>
+      path.posix.normalize(newFilename).startsWith(`${root}/`)
+    )
+    const unsafe =
+      path.posix.isAbsolute(newFilename) ||
+      newFilename.split("/").includes("..")
+    if (!inTestRoot && !unsafe) {
+      newFilename = `${context.config.testDir}/${newFilename.replace(/^\.\//, "")}`
     }
 
     return { ...proposal, filename: newFilename }
@@ -208,98 +311,68 @@ function finalizeTestProposals(
 
 /**
  * commitTests:
- * - For each test proposal, we either create or update the file in the PR branch.
- * - We also handle "rename" actions by deleting the old file.
- * - This is where we actually push commits back to GitHub using Octokit.
- */
-/**
- * Commits test files to both GitHub repository and local filesystem
- * @param octokit - GitHub API client
- * @param owner - Repository owner
- * @param repo - Repository name
- * @param branch - Target branch name
- * @param proposals - Array of test proposals to commit
+ * - Commits every proposal to the PR branch in a single commit (see github-commit.ts).
+ * - Renames delete the old file in the same commit.
+ * - The commit message lists each file and what happened to it.
+ * - Returns the new head commit.
  */
 async function commitTests(
   octokit: any,
-  owner: string,
-  repo: string,
-  branch: string,
-  proposals: TestProposal[]
+  context: PullRequestContextWithTests,
+  proposals: TestProposal[],
+  title: string
 ) {
+  const changes: FileChange[] = []
+  const lines: string[] = []
   for (const p of proposals) {
-    // Handle file renames by deleting the old file first
     if (
       p.actions?.action === "rename" &&
       p.actions.oldFilename &&
       p.actions.oldFilename !== p.filename
     ) {
-      try {
-        const { data: oldFile } = await octokit.repos.getContent({
-          owner,
-          repo,
-          path: p.actions.oldFilename,
-          ref: branch
-        })
-        if ("sha" in oldFile) {
-          await octokit.repos.deleteFile({
-            owner,
-            repo,
-            path: p.actions.oldFilename,
-            message: `Rename ${p.actions.oldFilename} to ${p.filename}`,
-            branch,
-            sha: oldFile.sha
-          })
-        }
-      } catch (err: any) {
-        // Ignore 404 errors if old file doesn't exist
-        if (err.status !== 404) throw err
-      }
+      changes.push({ path: p.actions.oldFilename })
+      lines.push(`- Rename ${p.actions.oldFilename} to ${p.filename}`)
+    } else {
+      lines.push(
+        `- ${p.actions?.action === "update" ? "Update" : "Create"} ${p.filename}`
+      )
     }
+    changes.push({ path: p.filename, content: p.testContent })
+  }
 
-    // Encode file content to base64 for GitHub API
-    const encoded = Buffer.from(p.testContent, "utf8").toString("base64")
+  return commitFiles(octokit, {
+    owner: context.owner,
+    repo: context.repo,
+    branch: context.headRef,
+    expectedHeadSha: context.headSha,
+    message: `${title}\n\n${lines.join("\n")}`,
+    changes
+  })
+}
 
-    try {
-      // Try to get existing file to update it
-      const { data: existingFile } = await octokit.repos.getContent({
-        owner,
-        repo,
-        path: p.filename,
-        ref: branch
+/**
+ * writeTestsLocally:
+ * - Applies proposals to the working tree: the local-mode counterpart of commitTests,
+ *   and how tests reach the working tree when they don't run in the sandbox.
+ * - Renamed files are removed from their old location.
+ */
+function writeTestsLocally(proposals: TestProposal[]) {
+  for (const p of proposals) {
+    if (
+      p.actions?.action === "rename" &&
+      p.actions.oldFilename &&
+      p.actions.oldFilename !== p.filename
+    ) {
+      fs.rmSync(path.join(process.cwd(), p.actions.oldFilename), {
+        force: true
       })
-
-      // Update existing file if found
-      if ("sha" in existingFile) {
-        await octokit.repos.createOrUpdateFileContents({
-          owner,
-          repo,
-          path: p.filename,
-          message: `Add/Update tests: ${p.filename}`,
-          content: encoded,
-          branch,
-          sha: existingFile.sha
-        })
-      }
-    } catch (error: any) {
-      // Create new file if 404 (doesn't exist)
-      if (error.status === 404) {
-        await octokit.repos.createOrUpdateFileContents({
-          owner,
-          repo,
-          path: p.filename,
-          message: `Add/Update tests: ${p.filename}`,
-          content: encoded,
-          branch
-        })
-      } else {
-        throw error
-      }
     }
-
-    // Write file to local filesystem as well
-    const localPath = path.join(process.cwd(), p.filename)
-    fs.mkdirSync(path.dirname(localPath), { recursive: true })
-    fs.writeFileSync(localPath, p.testContent, "utf-8")
+    writeLocalTestFile(p)
   }
 }
+
+function writeLocalTestFile(p: TestProposal) {
+  const localPath = path.join(process.cwd(), p.filename)
+  fs.mkdirSync(path.dirname(localPath), { recursive: true })
+  fs.writeFileSync(localPath, p.testContent, "utf-8")
+}
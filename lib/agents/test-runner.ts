@@ -1,33 +1,407 @@
 /**
  * This module runs the local Jest tests within the GitHub Actions environment
- * and returns whether they passed or failed, plus the output logs.
+ * and returns structured results: per-suite and per-test status, duration and failure details.
  *
- * We do this so that if tests fail, the AI can attempt to fix them and try again.
+ * We do this so that if tests fail, the AI can attempt to fix exactly the failing tests and try again,
+ * and so the PR comment can show a pass/fail table.
+ *
+ * Results come from Jest's JSON output. If that file is missing (e.g. Jest crashed before writing it),
+ * we fall back to the JUnit XML report that jest-junit writes (see jest.config.ts).
+ *
+ * Since the tests are written by an LLM, they run in a sandbox by default (see test-sandbox.ts):
+ * a temp copy of the repo with the generated tests, a scrubbed environment, no network and resource limits.
+ *
+ * A run can be limited to the tests related to some files (see test-selection.ts).
  */
 
 import { execSync } from "child_process"
+import fs from "fs"
+import path from "path"
+import { parseString } from "xml2js"
+import { AgentConfig, DEFAULT_AGENT_CONFIG } from "./agent-config"
+import { TestProposal } from "./test-proposals"
+import {
+  createSandbox,
+  removeSandbox,
+  runInSandbox,
+  SandboxFile
+} from "./test-sandbox"
+import { relatedTestsArgs } from "./test-selection"
+
+const JSON_REPORT_PATH = "reports/jest/test-results.json"
+const JUNIT_REPORT_PATH = "reports/jest/test-results.xml"
+
+/**
+ * The result of a single test case.
+ * - file: the test file, relative to the repo root.
+ * - line: the line in the test file where it failed (or was declared, if it passed), when known.
+ */
+export interface TestCaseResult {
+  file: string
+  name: string
+  fullName: string
+  status: "passed" | "failed" | "skipped"
+  durationMs: number
+  failureMessage?: string
+  stack?: string
+  line?: number
+}
+
+/**
+ * The result of a test file.
+ * - failureMessage: set when the suite itself failed to run (e.g. a syntax or import error).
+ */
+export interface TestSuiteResult {
+  file: string
+  status: "passed" | "failed"
+  durationMs: number
+  failureMessage?: string
+  tests: TestCaseResult[]
+}
+
+/**
+ * The result of a whole test run.
+ * - jestFailed: true if any test or suite failed, or Jest itself exited with an error.
+ * - output: the raw console output, kept for logging and as a fallback for the fixer.
+ * - selection: the files only related tests were run for, or undefined if the full suite ran.
+ */
+export interface TestRunResult {
+  jestFailed: boolean
+  output: string
+  selection?: string[]
+  suites: TestSuiteResult[]
+  numPassed: number
+  numFailed: number
+  numSkipped: number
+}
+
+const TEST_COMMAND = `npm run test -- --json --outputFile=${JSON_REPORT_PATH} --testLocationInResults`
 
 /**
  * runLocalTests:
- * - Executes "npm run test" (which calls Jest based on our package.json scripts).
+ * - Executes "npm run test" (which calls Jest based on our package.json scripts), asking Jest for a JSON report.
+ * - With the sandbox enabled (the default), the proposals are written into a temp copy of the repo
+ *   and the tests run there. Otherwise they run in the working tree, where the proposals already are.
+ * - With a selection, only the tests related to those files run (jest --findRelatedTests).
  * - If tests fail, we catch the error and store the output for debugging.
- *
- * Returns:
- *  - jestFailed: boolean indicating whether the tests failed
- *  - output: the test output logs (pass/fail messages, stack traces, etc.)
+ * - Parses the JSON (or JUnit XML) report into suites and test cases.
+ */
+export async function runLocalTests(
+  config: AgentConfig = DEFAULT_AGENT_CONFIG,
+  proposals: TestProposal[] = [],
+  selection?: string[]
+): Promise<TestRunResult> {
+  const command = selection
+    ? `${TEST_COMMAND} ${relatedTestsArgs(selection)}`
+    : TEST_COMMAND
+  const run = config.sandbox.enabled
+    ? await runTestsInSandbox(config, proposals, command)
+    : runTestsInWorkingTree(command)
+
+  const suites = run.suites
+  const allTests = suites.flatMap(s => s.tests)
+  const numFailed = allTests.filter(t => t.status === "failed").length
+
+  return {
+    jestFailed:
+      run.exitFailed ||
+      numFailed > 0 ||
+      suites.some(s => s.status === "failed"),
+    output: run.output,
+    selection,
+    suites,
+    numPassed: allTests.filter(t => t.status === "passed").length,
+    numFailed,
+    numSkipped: allTests.filter(t => t.status === "skipped").length
+  }
+}
+
+/**
+ * getFailedTests:
+ * - Returns every failing test case, plus one entry per suite that failed to run at all,
+ *   so callers (like the fixer) can treat both the same way.
+ */
+export function getFailedTests(result: TestRunResult): TestCaseResult[] {
+  const failed: TestCaseResult[] = []
+  for (const suite of result.suites) {
+    const failedTests = suite.tests.filter(t => t.status === "failed")
+    failed.push(...failedTests)
+    if (suite.status === "failed" && failedTests.length === 0) {
+      failed.push({
+        file: suite.file,
+        name: "Test suite failed to run",
+        fullName: "Test suite failed to run",
+        status: "failed",
+        durationMs: suite.durationMs,
+        failureMessage: suite.failureMessage
+      })
+    }
+  }
+  return failed
+}
+
+/**
+ * formatTestResultsTable:
+ * - Renders a Markdown summary line plus a pass/fail table for the PR comment.
+ * - Failures are listed first; the table is capped so large suites don't flood the comment.
+ */
+export function formatTestResultsTable(
+  result: TestRunResult,
+  maxRows = 50
+): string {
+  const scope = result.selection
+    ? ` (tests related to ${result.selection.length} changed file(s))`
+    : ""
+  let table = `**Test Results**${scope}: ${result.numPassed} passed, ${result.numFailed} failed, ${result.numSkipped} skipped\n\n`
+
+  const rows = [
+    ...getFailedTests(result),
+    ...result.suites.flatMap(s => s.tests.filter(t => t.status !== "failed"))
+  ]
+  if (rows.length === 0) {
+    return table + "_No test results were reported._"
+  }
+
+  table += "| Status | Test | File | Duration |\n|---|---|---|---|\n"
+  for (const t of rows.slice(0, maxRows)) {
+    const icon =
+      t.status === "passed" ? "✅" : t.status === "failed" ? "❌" : "⏭️"
+    const location = t.line ? `${t.file}:${t.line}` : t.file
+    table += `| ${icon} | ${escapeCell(t.fullName)} | ${location} | ${t.durationMs}ms |\n`
+  }
+  if (rows.length > maxRows) {
+    table += `\n_...and ${rows.length - maxRows} more._\n`
+  }
+  return table
+}
+
+/**
+ * runTestsInSandbox:
+ * - Runs the given test command in a fresh sandbox holding the proposals (renamed files are removed from their old path).
+ * - Paths in the output and reports are mapped back to the repo, so results look like a normal run.
  */
-export function runLocalTests(): { jestFailed: boolean; output: string } {
-  let jestFailed = false
+async function runTestsInSandbox(
+  config: AgentConfig,
+  proposals: TestProposal[],
+  command: string
+) {
+  const files: SandboxFile[] = []
+  for (const p of proposals) {
+    if (
+      p.actions?.action === "rename" &&
+      p.actions.oldFilename &&
+      p.actions.oldFilename !== p.filename
+    ) {
+      files.push({ filename: p.actions.oldFilename })
+    }
+    files.push({ filename: p.filename, content: p.testContent })
+  }
+
+  const sandbox = createSandbox(files)
+  try {
+    const { maxWorkers, ...limits } = config.sandbox
+    const result = await runInSandbox(
+      sandbox,
+      `${command} --maxWorkers=${maxWorkers} 2>&1`,
+      limits
+    )
+    const toRepoPaths = (text: string) =>
+      text.split(sandbox.workspace).join(process.cwd())
+    return {
+      exitFailed: result.exitCode !== 0,
+      output: toRepoPaths(result.output),
+      suites: readTestReport(sandbox.workspace, toRepoPaths)
+    }
+  } finally {
+    removeSandbox(sandbox)
+  }
+}
+
+/**
+ * runTestsInWorkingTree:
+ * - Runs the given test command directly in the repo, with the runner's full environment.
+ */
+function runTestsInWorkingTree(command: string) {
+  let exitFailed = false
   let output = ""
 
+  // Remove stale reports so we never parse the results of a previous run
+  fs.rmSync(JSON_REPORT_PATH, { force: true })
+  fs.rmSync(JUNIT_REPORT_PATH, { force: true })
+
   try {
     // We sync execute the test command. If any test fails, an error is thrown.
-    output = execSync("npm run test", { encoding: "utf8" })
+    // Jest writes its results to stderr, so we capture both streams.
+    output = execSync(`${command} 2>&1`, { encoding: "utf8" })
   } catch (err: any) {
-    jestFailed = true
-    // Capture the standard output or error message
-    output = err.stdout || err.message || "Unknown error"
+    exitFailed = true
+    // Capture the combined output (including failure details) or error message
+    output =
+      [err.stdout, err.stderr].filter(Boolean).join("\n") ||
+      err.message ||
+      "Unknown error"
+  }
+
+  return { exitFailed, output, suites: readTestReport(process.cwd()) }
+}
+
+/**
+ * readTestReport:
+ * - Prefers the Jest JSON report, falls back to the JUnit XML report, or returns no suites.
+ * - mapText lets the sandbox rewrite its paths before parsing.
+ */
+export function readTestReport(
+  dir: string,
+  mapText: (text: string) => string = text => text
+): TestSuiteResult[] {
+  const jsonPath = path.join(dir, JSON_REPORT_PATH)
+  const junitPath = path.join(dir, JUNIT_REPORT_PATH)
+  if (fs.existsSync(jsonPath)) {
+    try {
+      return parseJestJson(mapText(fs.readFileSync(jsonPath, "utf8")))
+    } catch (err) {
+      console.error("Could not parse Jest JSON report:", err)
+    }
+  }
+  if (fs.existsSync(junitPath)) {
+    try {
+      return parseJUnitXml(mapText(fs.readFileSync(junitPath, "utf8")))
+    } catch (err) {
+      console.error("Could not parse JUnit report:", err)
+    }
+  }
+  return []
+}
+
+/**
+ * parseJestJson:
+ * - Converts Jest's --json output into our suite/test shape.
+ */
+export function parseJestJson(json: string): TestSuiteResult[] {
+  const report = JSON.parse(json)
+  return (report.testResults || []).map((suite: any): TestSuiteResult => {
+    const file = toRelativePath(suite.name)
+    const tests = (suite.assertionResults || []).map(
+      (a: any): TestCaseResult => {
+        const failure = splitFailure(
+          stripAnsi((a.failureMessages || []).join("\n"))
+        )
+        return {
+          file,
+          name: a.title,
+          fullName: [...(a.ancestorTitles || []), a.title].join(" › "),
+          status: toStatus(a.status),
+          durationMs: a.duration || 0,
+          failureMessage: failure.message || undefined,
+          stack: failure.stack || undefined,
+          line: findLineInStack(failure.stack, file) ?? a.location?.line
+        }
+      }
+    )
+    const suiteFailed = suite.status === "failed"
+    return {
+      file,
+      status: suiteFailed ? "failed" : "passed",
+      durationMs: Math.max(0, (suite.endTime || 0) - (suite.startTime || 0)),
+      // Suite-level messages only matter when no individual test explains the failure
+      failureMessage:
+        suiteFailed && !tests.some((t: TestCaseResult) => t.status === "failed")
+          ? stripAnsi(suite.message || "").trim()
+          : undefined,
+      tests
+    }
+  })
+}
+
+/**
+ * parseJUnitXml:
+ * - Converts the jest-junit report into our suite/test shape.
+ * - Test files come from the "file" attribute jest-junit adds to each test case.
+ */
+export function parseJUnitXml(xml: string): TestSuiteResult[] {
+  let parsed: any
+  // xml2js calls back synchronously unless its async option is set
+  parseString(xml, (err, result) => {
+    if (err) throw err
+    parsed = result
+  })
+
+  const suites: any[] = parsed?.testsuites?.testsuite || []
+  return suites.map((suite: any): TestSuiteResult => {
+    const tests = (suite.testcase || []).map((tc: any): TestCaseResult => {
+      const file = toRelativePath(tc.$.file || "")
+      const failureNode = tc.failure?.[0] ?? tc.error?.[0]
+      const failureText =
+        typeof failureNode === "string" ? failureNode : failureNode?._ || ""
+      const failure = splitFailure(failureText)
+      return {
+        file,
+        name: tc.$.name,
+        fullName: tc.$.name,
+        status: failureNode ? "failed" : tc.skipped ? "skipped" : "passed",
+        durationMs: Math.round(parseFloat(tc.$.time || "0") * 1000),
+        failureMessage: failure.message || undefined,
+        stack: failure.stack || undefined,
+        line: findLineInStack(failure.stack, file)
+      }
+    })
+    const failed =
+      parseInt(suite.$.failures || "0", 10) +
+        parseInt(suite.$.errors || "0", 10) >
+      0
+    return {
+      file: tests[0]?.file || suite.$.name,
+      status: failed ? "failed" : "passed",
+      durationMs: Math.round(parseFloat(suite.$.time || "0") * 1000),
+      tests
+    }
+  })
+}
+
+// Splits an error into the message and the "at ..." stack lines
+function splitFailure(text: string) {
+  const lines = text.split("\n")
+  const stackStart = lines.findIndex(l => l.trim().startsWith("at "))
+  if (stackStart === -1) return { message: text.trim(), stack: "" }
+  return {
+    message: lines.slice(0, stackStart).join("\n").trim(),
+    stack: lines
+      .slice(stackStart)
+      .map(l => l.trim())
+      .join("\n")
   }
+}
+
+// Finds the first stack frame pointing into the test file, e.g. "(/repo/__tests__/unit/a.test.ts:12:5)"
+function findLineInStack(stack: string, file: string): number | undefined {
+  if (!stack || !file) return undefined
+  for (const frame of stack.split("\n")) {
+    const match = frame.match(/\(?([^\s()]+):(\d+):\d+\)?$/)
+    if (match && toRelativePath(match[1]) === file) {
+      return parseInt(match[2], 10)
+    }
+  }
+  return undefined
+}
+
+function toStatus(status: string): TestCaseResult["status"] {
+  if (status === "passed") return "passed"
+  if (status === "failed") return "failed"
+  return "skipped"
+}
+
+function toRelativePath(filePath: string) {
+  if (!filePath) return ""
+  return path.isAbsolute(filePath)
+    ? path.relative(process.cwd(), filePath).split(path.sep).join("/")
+    : filePath
+}
+
+function stripAnsi(text: string) {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\u001b\[[0-9;]*m/g, "")
+}
 
-  return { jestFailed, output }
+function escapeCell(text: string) {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ")
 }
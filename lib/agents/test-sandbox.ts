@@ -0,0 +1,390 @@
+/**
+ * This module runs commands (the test run, in practice) in a sandbox, so AI-generated tests
+ * can't read the runner's secrets, reach the network, or hang the job.
+ *
+ * A sandbox is a temporary directory holding:
+ * - workspace/: a copy of the repo without .git (which may hold the checkout token) and .env files.
+ *   node_modules is symlinked rather than copied. Generated test files are written here, not into the repo.
+ * - home/: an empty HOME, so nothing is picked up from the runner's dotfiles.
+ * - preload.js: required into every Node process; it blocks TCP connections and replaces fetch with a stub.
+ *
+ * The command runs with a scrubbed environment (no tokens or API keys), a wall-clock timeout, kernel limits
+ * on CPU time (ulimit -t) and memory (ulimit -d) per process, a heap limit per Node process and a cap on output.
+ *
+ * With "namespace" isolation (the default), the command also runs in its own Linux network, PID and mount
+ * namespaces (unshare), as the unprivileged "nobody" user (setpriv):
+ * - The network namespace has nothing but a loopback interface, whatever the code does.
+ * - The agent's processes (and their environment in /proc) are out of sight, and out of reach of another user.
+ * - node_modules is bind-mounted read-only, and the repo checkout is hidden under an empty tmpfs.
+ * Namespaces need root or passwordless sudo, as on GitHub's hosted runners. "process" isolation skips them,
+ * for machines without either; then a test can read whatever the runner user can.
+ */
+
+import { spawn, spawnSync } from "child_process"
+import fs from "fs"
+import os from "os"
+import path from "path"
+
+/**
+ * How a sandboxed command is isolated from the runner (see the module comment).
+ */
+export type SandboxIsolation = "namespace" | "process"
+
+/**
+ * Resource limits for a sandboxed command.
+ * - timeoutSeconds: wall-clock limit; the whole process tree is killed when it's reached.
+ * - maxCpuSeconds: CPU time limit per process.
+ * - maxMemoryMb: memory limit per process (its data segment), and the heap limit of each Node process.
+ * - maxOutputBytes: output beyond this is dropped (the end is kept, since that's where failures are).
+ * - isolation: "namespace" (the default) or "process".
+ */
+export interface SandboxLimits {
+  timeoutSeconds: number
+  maxCpuSeconds: number
+  maxMemoryMb: number
+  maxOutputBytes?: number
+  isolation?: SandboxIsolation
+}
+
+/**
+ * A file to put into the sandbox's workspace; without content, the file is removed instead.
+ */
+export interface SandboxFile {
+  filename: string
+  content?: string
+}
+
+/**
+ * A sandbox; source is the repo it was copied from.
+ */
+export interface Sandbox {
+  root: string
+  workspace: string
+  source: string
+}
+
+export interface SandboxRunResult {
+  exitCode: number | null
+  output: string
+  timedOut: boolean
+}
+
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024
+
+// Never copied into the workspace: VCS data, build output, reports and local secrets
+const SKIPPED_DIRS = new Set([
+  ".git",
+  ".next",
+  "node_modules",
+  "reports",
+  "coverage"
+])
+const ENV_FILE_PATTERN = /^\.env(\..+)?$/
+
+// Environment variables passed through to the sandbox; everything else (tokens, API keys) is dropped
+const ALLOWED_ENV = ["PATH", "LANG", "LC_ALL", "TZ", "TERM"]
+
+// The unprivileged user (and group) namespace-isolated commands run as: "nobody"
+const SANDBOX_UID = 65534
+
+// Extra time the namespace's own timeout gets before we kill the command from outside
+const KILL_GRACE_SECONDS = 10
+
+/**
+ * The setup script of a namespace-isolated command. It starts as root inside the new namespaces:
+ * - Brings up loopback, mounts node_modules read-only in place of the symlink and hides the repo checkout.
+ * - Runs the command as nobody with the time limit, then puts the symlink back and hands the sandbox
+ *   back to the agent's user.
+ * Arguments: the sandbox root, the workspace, the repo, the agent's uid:gid, the time limit and the command.
+ */
+const NAMESPACE_SCRIPT = `
+root=$1 workspace=$2 repo=$3 owner=$4 seconds=$5 command=$6
+set -e
+ip link set lo up 2>/dev/null || true
+modules=$(readlink "$workspace/node_modules" || true)
+if [ -n "$modules" ]; then
+  rm "$workspace/node_modules"
+  mkdir "$workspace/node_modules"
+fi
+chown -R ${SANDBOX_UID}:${SANDBOX_UID} "$root"
+if [ -n "$modules" ]; then
+  mount --bind "$modules" "$workspace/node_modules"
+  mount -o remount,bind,ro "$workspace/node_modules"
+fi
+case "$root/" in
+  "$repo"/*) ;;
+  *) mount -t tmpfs -o ro,size=4k tmpfs "$repo" ;;
+esac
+set +e
+timeout -s KILL "$seconds" setpriv --reuid=${SANDBOX_UID} --regid=${SANDBOX_UID} --clear-groups --no-new-privs sh -c "$command"
+status=$?
+if [ -n "$modules" ]; then
+  umount "$workspace/node_modules"
+  rm -rf "$workspace/node_modules"
+  ln -s "$modules" "$workspace/node_modules"
+fi
+chown -R "$owner" "$root"
+exit $status
+`
+
+/**
+ * The preload script. It runs in every Node process of the sandboxed command (via NODE_OPTIONS).
+ * - Local IPC (Unix sockets and pipes, used between Jest workers) still works; TCP connections throw.
+ * - fetch is replaced so tests get a clear error instead of a hanging request.
+ */
+const PRELOAD_SCRIPT = `"use strict"
+const net = require("net")
+const message = "Network access is disabled in the AI agent test sandbox."
+const connect = net.Socket.prototype.connect
+net.Socket.prototype.connect = function (...args) {
+  const options = Array.isArray(args[0]) ? args[0][0] : args[0]
+  if (typeof options === "string" || (options && options.path)) {
+    return connect.apply(this, args)
+  }
+  throw new Error(message)
+}
+globalThis.fetch = async () => {
+  throw new Error(message)
+}
+`
+
+/**
+ * createSandbox:
+ * - Copies the repo at cwd into a new temporary workspace and writes the given files on top of it.
+ */
+export function createSandbox(
+  files: SandboxFile[] = [],
+  cwd = process.cwd()
+): Sandbox {
+  // realpath so paths match what processes inside report (e.g. /var vs /private/var on macOS)
+  const root = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), "ai-agent-sandbox-"))
+  )
+  const workspace = path.join(root, "workspace")
+
+  try {
+    fs.cpSync(cwd, workspace, {
+      recursive: true,
+      filter: src => {
+        const name = path.basename(src)
+        if (ENV_FILE_PATTERN.test(name) && name !== ".env.example") return false
+        return !(path.dirname(src) === cwd && SKIPPED_DIRS.has(name))
+      }
+    })
+    if (fs.existsSync(path.join(cwd, "node_modules"))) {
+      fs.symlinkSync(
+        path.join(cwd, "node_modules"),
+        path.join(workspace, "node_modules"),
+        "dir"
+      )
+    }
+
+    for (const file of files) {
+      const target = path.join(workspace, file.filename)
+      // Generated filenames come from the LLM; never write outside the workspace
+      if (!target.startsWith(workspace + path.sep)) {
+        throw new Error(
+          `Refusing to write ${file.filename} outside the sandbox.`
+        )
+      }
+      if (file.content === undefined) {
+        fs.rmSync(target, { force: true })
+      } else {
+        fs.mkdirSync(path.dirname(target), { recursive: true })
+        fs.writeFileSync(target, file.content, "utf8")
+      }
+    }
+
+    fs.mkdirSync(path.join(root, "home"))
+    fs.writeFileSync(path.join(root, "preload.js"), PRELOAD_SCRIPT, "utf8")
+  } catch (err) {
+    fs.rmSync(root, { recursive: true, force: true })
+    throw err
+  }
+  return { root, workspace, source: fs.realpathSync(cwd) }
+}
+
+/**
+ * removeSandbox:
+ * - Deletes the sandbox and everything in it.
+ */
+export function removeSandbox(sandbox: Sandbox) {
+  try {
+    fs.rmSync(sandbox.root, { recursive: true, force: true })
+  } catch (err) {
+    // A namespace-isolated command killed from outside leaves files owned by nobody
+    const [command, ...args] = privileged("rm", "-rf", sandbox.root)
+    if (spawnSync(command, args).status !== 0) throw err
+  }
+}
+
+let namespaceSupport: boolean | undefined
+
+/**
+ * canIsolateNamespaces:
+ * - True if commands can run with "namespace" isolation here: Linux with unshare and setpriv,
+ *   as root or with passwordless sudo. Checked once per process.
+ */
+export function canIsolateNamespaces() {
+  if (namespaceSupport === undefined) {
+    const [command, ...args] = privileged(
+      "unshare",
+      "--net",
+      "--pid",
+      "--fork",
+      "--mount",
+      "setpriv",
+      `--reuid=${SANDBOX_UID}`,
+      `--regid=${SANDBOX_UID}`,
+      "--clear-groups",
+      "true"
+    )
+    namespaceSupport =
+      process.platform === "linux" &&
+      spawnSync(command, args, { stdio: "ignore" }).status === 0
+  }
+  return namespaceSupport
+}
+
+/**
+ * buildSandboxEnv:
+ * - The environment for sandboxed commands: a few harmless variables from the runner,
+ *   plus the preload script and heap limit for every Node process.
+ */
+export function buildSandboxEnv(
+  sandbox: Sandbox,
+  limits: SandboxLimits
+): NodeJS.ProcessEnv {
+  const env: Record<string, string> = {}
+  for (const name of ALLOWED_ENV) {
+    const value = process.env[name]
+    if (value !== undefined) env[name] = value
+  }
+  return {
+    ...env,
+    HOME: path.join(sandbox.root, "home"),
+    TMPDIR: path.join(sandbox.root, "home"),
+    CI: "true",
+    NODE_ENV: "test",
+    npm_config_update_notifier: "false",
+    NODE_OPTIONS: `--require ${JSON.stringify(path.join(sandbox.root, "preload.js"))} --max-old-space-size=${limits.maxMemoryMb}`
+  }
+}
+
+// Runs as root: directly if we are root, through sudo otherwise
+function privileged(...command: string[]) {
+  return process.getuid?.() === 0 ? command : ["sudo", "-n", ...command]
+}
+
+/**
+ * runInSandbox:
+ * - Runs a shell command in the sandbox's workspace with the scrubbed environment and the given limits.
+ * - Returns the combined stdout/stderr, the exit code, and whether the time limit was hit.
+ * - Rejects if "namespace" isolation is asked for but not available here.
+ */
+export function runInSandbox(
+  sandbox: Sandbox,
+  command: string,
+  limits: SandboxLimits
+): Promise<SandboxRunResult> {
+  const maxOutputBytes = limits.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES
+  const isolated = (limits.isolation ?? "namespace") === "namespace"
+  if (isolated && !canIsolateNamespaces()) {
+    return Promise.reject(
+      new Error(
+        'The test sandbox can\'t use namespace isolation here: it needs Linux with unshare and setpriv, run as root or with passwordless sudo. Set sandbox.isolation to "process" in the agent config to run tests without it.'
+      )
+    )
+  }
+
+  // ulimit -d rather than -v: V8 reserves far more address space than it uses, so -v breaks Node
+  const limited = `ulimit -t ${limits.maxCpuSeconds} && ulimit -d ${limits.maxMemoryMb * 1024} && ${command}`
+  const env = buildSandboxEnv(sandbox, limits)
+  const [file, ...args] = isolated
+    ? privileged(
+        // sudo resets the environment, so it's passed on explicitly
+        "env",
+        "-i",
+        ...Object.entries(env).map(([name, value]) => `${name}=${value}`),
+        "unshare",
+        "--net",
+        "--pid",
+        "--fork",
+        "--mount",
+        "--mount-proc",
+        "sh",
+        "-c",
+        NAMESPACE_SCRIPT,
+        "sandbox",
+        sandbox.root,
+        sandbox.workspace,
+        sandbox.source,
+        `${process.getuid?.()}:${process.getgid?.()}`,
+        String(limits.timeoutSeconds),
+        limited
+      )
+    : ["sh", "-c", limited]
+
+  return new Promise(resolve => {
+    // detached puts the command in its own process group, so a timeout can kill all of it
+    const child = spawn(file, args, {
+      cwd: sandbox.workspace,
+      env,
+      detached: true,
+      stdio: ["ignore", "pipe", "pipe"]
+    })
+
+    let output = ""
+    let truncated = false
+    const append = (chunk: Buffer) => {
+      output += chunk.toString("utf8")
+      if (output.length > maxOutputBytes) {
+        output = output.slice(-maxOutputBytes)
+        truncated = true
+      }
+    }
+    child.stdout.on("data", append)
+    child.stderr.on("data", append)
+
+    // In namespaces, the time limit is enforced inside (as root), so the sandbox is handed back afterwards
+    const started = Date.now()
+    let timedOut = false
+    const timer = setTimeout(
+      () => {
+        timedOut = true
+        killProcessGroup(child.pid)
+      },
+      (limits.timeoutSeconds + (isolated ? KILL_GRACE_SECONDS : 0)) * 1000
+    )
+
+    const finish = (exitCode: number | null, extra = "") => {
+      clearTimeout(timer)
+      // Don't leave anything the command started behind
+      killProcessGroup(child.pid)
+      // timeout -s KILL exits with 128 + 9
+      if (
+        isolated &&
+        exitCode === 137 &&
+        Date.now() - started >= limits.timeoutSeconds * 1000
+      ) {
+        timedOut = true
+      }
+      if (truncated) output = `[output truncated]\n${output}`
+      if (timedOut) {
+        output += `\n\nKilled after ${limits.timeoutSeconds}s (sandbox time limit).`
+      }
+      resolve({ exitCode, output: output + extra, timedOut })
+    }
+    child.on("error", err => finish(null, `\n${err.message}`))
+    child.on("close", code => finish(code))
+  })
+}
+
+function killProcessGroup(pid: number | undefined) {
+  if (!pid) return
+  try {
+    process.kill(-pid, "SIGKILL")
+  } catch {
+    // The group has already exited
+  }
+}
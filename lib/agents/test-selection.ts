@@ -0,0 +1,67 @@
+/**
+ * This module decides which tests a run executes.
+ *
+ * Running the whole suite on every fix iteration is slow on large repos, so by default (testSelection.mode "affected")
+ * the fix loop only runs the generated tests plus the tests related to the PR's changed source files.
+ * Jest finds those itself from its dependency graph (jest --findRelatedTests), so a test that imports a changed
+ * file, directly or not, is included.
+ *
+ * Once the loop is done, the full suite runs once to confirm the result (see testSelection.fullRun).
+ */
+
+import { AgentConfig } from "./agent-config"
+import { PullRequestContext } from "./pr-context"
+import { TestProposal } from "./test-proposals"
+import { TestRunResult } from "./test-runner"
+
+// Files Jest can resolve imports for; anything else can't have related tests
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/
+
+/**
+ * selectTests:
+ * - Returns the files to run related tests for: the proposals and the PR's changed source files.
+ * - Returns undefined (the full suite) if the mode is "all" or there is nothing to select.
+ */
+export function selectTests(
+  context: PullRequestContext,
+  proposals: TestProposal[]
+): string[] | undefined {
+  if (context.config.testSelection.mode === "all") return undefined
+
+  const files = new Set(proposals.map(p => p.filename))
+  for (const file of context.changedFiles) {
+    if (file.status === "removed" || !isSourceFile(file.filename)) continue
+    files.add(file.filename)
+  }
+  return files.size > 0 ? [...files] : undefined
+}
+
+/**
+ * isSourceFile:
+ * - True for the files Jest can run or collect coverage for (JavaScript and TypeScript).
+ */
+export function isSourceFile(filename: string) {
+  return SOURCE_FILE.test(filename)
+}
+
+/**
+ * shouldRunFullSuite:
+ * - True if a run of selected tests should be confirmed by a full run, per testSelection.fullRun:
+ *   "always", "on-pass" (only if the selected tests pass) or "never".
+ */
+export function shouldRunFullSuite(config: AgentConfig, result: TestRunResult) {
+  if (!result.selection) return false
+  const { fullRun } = config.testSelection
+  return fullRun === "always" || (fullRun === "on-pass" && !result.jestFailed)
+}
+
+/**
+ * relatedTestsArgs:
+ * - The Jest arguments that run only the tests related to the given files.
+ * - The paths come from the PR, so each one is quoted for the shell.
+ */
+export function relatedTestsArgs(selection: string[]) {
+  const quoted = selection.map(f => `'${f.replace(/'/g, `'\\''`)}'`)
+  // Nothing related to the selection isn't a failure; the full run still covers the rest
+  return `--passWithNoTests --findRelatedTests ${quoted.join(" ")}`
+}
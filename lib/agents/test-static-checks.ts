@@ -0,0 +1,278 @@
+/**
+ * This module checks generated tests before they are committed or run.
+ *
+ * - Each proposal is type-checked in memory against the repo's tsconfig.json (so "@/..." paths resolve
+ *   like in the build), without writing it to disk.
+ * - It is also linted with the repo's ESLint config, if ESLint is installed.
+ * - Files with errors go back to the LLM with their diagnostics, for up to staticChecks.maxRepairRounds rounds.
+ * - Only proposals without errors are kept; the others are dropped and listed in the PR comment.
+ */
+
+import { generateObject } from "ai"
+import path from "path"
+import ts from "typescript"
+import { z } from "zod"
+import { formatRelatedFiles, readTsConfig } from "./import-graph"
+import { getLLMCallSettings } from "./llm"
+import { PullRequestContext } from "./pr-context"
+import { UNTRUSTED_DATA_RULES, wrapUntrusted } from "./prompt-safety"
+import { TestProposal } from "./test-proposals"
+
+/**
+ * The errors found in one proposal, formatted like "12:5 TS2339: Property 'x' does not exist ...".
+ */
+export interface ProposalDiagnostics {
+  filename: string
+  diagnostics: string[]
+}
+
+// The repaired files we expect from the LLM
+const testRepairSchema = z.object({
+  edits: z.array(
+    z.object({
+      filename: z.string(),
+      testContent: z.string()
+    })
+  )
+})
+
+// Diagnostics per file sent to the LLM and shown in the comment
+const MAX_DIAGNOSTICS = 20
+
+/**
+ * gateTestProposals:
+ * - Checks the proposals, lets the LLM repair the failing ones, and checks again, up to maxRepairRounds times.
+ * - Returns the proposals that pass (repaired ones with their new content) and a note for the PR comment.
+ */
+export async function gateTestProposals(
+  context: PullRequestContext,
+  proposals: TestProposal[],
+  cwd = process.cwd()
+): Promise<{ proposals: TestProposal[]; note: string }> {
+  const { enabled, lint, maxRepairRounds } = context.config.staticChecks
+  if (!enabled || proposals.length === 0) return { proposals, note: "" }
+
+  let current = proposals
+  let failures = await checkTestProposals(current, { cwd, lint })
+  let rounds = 0
+  const repaired = new Set<string>()
+  while (failures.length > 0 && rounds < maxRepairRounds) {
+    rounds++
+    const edits = await repairTestProposals(context, current, failures, rounds)
+    // Only the failing files may be changed by a repair
+    current = current.map(p => {
+      const edit = edits.find(
+        e =>
+          e.filename === p.filename &&
+          failures.some(f => f.filename === p.filename)
+      )
+      if (!edit) return p
+      repaired.add(p.filename)
+      return { ...p, testContent: edit.testContent }
+    })
+    failures = await checkTestProposals(current, { cwd, lint })
+  }
+
+  const passed = current.filter(
+    p => !failures.some(f => f.filename === p.filename)
+  )
+  const fixed = passed.filter(p => repaired.has(p.filename)).length
+  let note = ""
+  if (fixed > 0) {
+    note += `\n\nRepaired type or lint errors in ${fixed} generated test file(s).`
+  }
+  if (failures.length > 0) {
+    note += `\n\n⚠️ Dropped ${failures.length} generated test file(s) that still had type or lint errors after ${rounds} repair round(s):\n${failures
+      .map(
+        f =>
+          `- \`${f.filename}\`:\n${f.diagnostics
+            .slice(0, 3)
+            .map(d => `  - \`${d}\``)
+            .join("\n")}`
+      )
+      .join("\n")}`
+  }
+  return { proposals: passed, note }
+}
+
+/**
+ * checkTestProposals:
+ * - Type-checks (and optionally lints) the proposals as if they were in the working tree at cwd.
+ * - Returns the proposals with errors; warnings don't count.
+ */
+export async function checkTestProposals(
+  proposals: TestProposal[],
+  options: { cwd?: string; lint?: boolean } = {}
+): Promise<ProposalDiagnostics[]> {
+  const cwd = options.cwd ?? process.cwd()
+  const typeErrors = typeCheckProposals(proposals, cwd)
+  const lintErrors = options.lint
+    ? await lintProposals(proposals, cwd)
+    : new Map<string, string[]>()
+
+  return proposals
+    .map(p => ({
+      filename: p.filename,
+      diagnostics: [
+        ...(typeErrors.get(p.filename) ?? []),
+        ...(lintErrors.get(p.filename) ?? [])
+      ].slice(0, MAX_DIAGNOSTICS)
+    }))
+    .filter(d => d.diagnostics.length > 0)
+}
+
+// Type-checks the proposals in memory: a program over the proposals (and the project's .d.ts files),
+// where the proposals' paths read from memory and everything else from disk
+function typeCheckProposals(proposals: TestProposal[], cwd: string) {
+  const { options, fileNames } = readTsConfig(cwd)
+  const compilerOptions = { ...options, noEmit: true, incremental: false }
+  const files = new Map(
+    proposals.map(p => [path.resolve(cwd, p.filename), p.testContent])
+  )
+
+  const host = ts.createCompilerHost(compilerOptions, true)
+  const { getSourceFile, fileExists, readFile } = host
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const content = files.get(path.resolve(fileName))
+    return content !== undefined
+      ? ts.createSourceFile(fileName, content, languageVersion, true)
+      : getSourceFile.call(host, fileName, languageVersion, ...rest)
+  }
+  host.fileExists = fileName =>
+    files.has(path.resolve(fileName)) || fileExists.call(host, fileName)
+  host.readFile = fileName =>
+    files.get(path.resolve(fileName)) ?? readFile.call(host, fileName)
+
+  const program = ts.createProgram({
+    rootNames: [...files.keys(), ...fileNames.filter(f => f.endsWith(".d.ts"))],
+    options: compilerOptions,
+    host
+  })
+
+  const errors = new Map<string, string[]>()
+  for (const p of proposals) {
+    const sourceFile = program.getSourceFile(path.resolve(cwd, p.filename))
+    if (!sourceFile) continue
+    const diagnostics = ts
+      .getPreEmitDiagnostics(program, sourceFile)
+      .filter(d => d.category === ts.DiagnosticCategory.Error)
+      .map(d => formatDiagnostic(d))
+    if (diagnostics.length > 0) errors.set(p.filename, diagnostics)
+  }
+  return errors
+}
+
+function formatDiagnostic(diagnostic: ts.Diagnostic) {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, " ")
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return `TS${diagnostic.code}: ${message}`
+  }
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(
+    diagnostic.start
+  )
+  return `${line + 1}:${character + 1} TS${diagnostic.code}: ${message}`
+}
+
+// Lints the proposals with the repo's ESLint config; skipped if ESLint isn't installed
+async function lintProposals(proposals: TestProposal[], cwd: string) {
+  const errors = new Map<string, string[]>()
+  let ESLint: any
+  try {
+    // ESLint is the repo's dependency, not the agent's, and has no type declarations
+    ESLint = require("eslint").ESLint
+  } catch {
+    console.warn(
+      "ESLint is not installed; generated tests are only type-checked"
+    )
+    return errors
+  }
+
+  const eslint = new ESLint({ cwd })
+  for (const p of proposals) {
+    try {
+      const results = await eslint.lintText(p.testContent, {
+        filePath: path.resolve(cwd, p.filename)
+      })
+      const messages = results
+        .flatMap((r: any) => r.messages)
+        .filter((m: any) => m.severity === 2)
+        .map(
+          (m: any) =>
+            `${m.line}:${m.column} ESLint${m.ruleId ? ` ${m.ruleId}` : ""}: ${m.message}`
+        )
+      if (messages.length > 0) errors.set(p.filename, messages)
+    } catch (err) {
+      console.error(`Error linting ${p.filename}:`, err)
+    }
+  }
+  return errors
+}
+
+/**
+ * repairTestProposals:
+ * - Asks the LLM to fix the reported errors in the failing test files, given the code under test.
+ * - Returns the full new content of each repaired file (none if the call fails).
+ */
+async function repairTestProposals(
+  context: PullRequestContext,
+  proposals: TestProposal[],
+  failures: ProposalDiagnostics[],
+  round: number
+) {
+  const failingPrompt = failures
+    .map(f => {
+      const proposal = proposals.find(p => p.filename === f.filename)
+      return `File: ${f.filename}\nErrors:\n${f.diagnostics.map(d => `- ${d}`).join("\n")}\nContent:\n${proposal?.testContent ?? ""}`
+    })
+    .join("\n---\n")
+
+  const changedFilesPrompt = context.changedFiles
+    .map(file => {
+      if (file.excluded) return `File: ${file.filename} [EXCLUDED FROM PROMPT]`
+      return `File: ${file.filename}\nContent:\n${file.content}`
+    })
+    .join("\n---\n")
+
+  const system = `
+You are an expert developer fixing TypeScript and ESLint errors in generated unit tests (round #${round}).
+
+Fix only the reported errors and keep what each test checks. Use only the APIs that exist in the code under test
+and the related files. Return the full new content of each file you fix.
+
+Return only valid JSON matching this structure:
+{
+  "edits": [
+    {
+      "filename": "string",
+      "testContent": "string"
+    }
+  ]
+}
+
+${UNTRUSTED_DATA_RULES}
+`
+  const prompt = `
+Test Files With Errors:
+${wrapUntrusted("generated-tests", failingPrompt)}
+Code Under Test:
+${wrapUntrusted("changed-files", changedFilesPrompt)}
+${formatRelatedFiles(context.relatedFiles)}`
+  console.log(`\n\n\n\n\n--------------------------------`)
+  console.log(`Test repair prompt:\n${system}\n${prompt}`)
+  console.log(`--------------------------------\n\n\n\n\n`)
+  const llm = getLLMCallSettings("repair")
+  try {
+    const result = await generateObject({
+      ...llm,
+      schema: testRepairSchema,
+      schemaName: "testRepair",
+      schemaDescription: "Generated test files with their errors fixed in JSON",
+      system,
+      prompt
+    })
+    return result.object.edits
+  } catch (err) {
+    console.error("Error repairing generated tests:", err)
+    return []
+  }
+}
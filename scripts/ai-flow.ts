@@ -2,13 +2,40 @@
  * This script is the main entry point for our AI Agent workflow.
  * - It imports the runFlow function from our flow-runner.ts file.
  * - When run, it calls runFlow(), which orchestrates the entire AI-based code review and test generation process.
+ * - With "--local [range]", it calls runLocalFlow() instead, reviewing a local git range without GitHub.
+ *   "--output <file>" writes the results to a Markdown file instead of the terminal.
  * - If anything errors out during execution, it logs the error and exits the process with a non-zero code.
+ *
+ * Examples:
+ *   npx tsx scripts/ai-flow.ts
+ *   npx tsx scripts/ai-flow.ts --local main..HEAD --output ai-review.md
  */
 
-import { runFlow } from "@/lib/agents/flow-runner"
+import { runFlow, runLocalFlow } from "@/lib/agents/flow-runner"
+import { CliOptions, parseCliArgs } from "@/lib/agents/local-context"
 
-// Initiates the AI Agent flow.
-runFlow().catch(err => {
-  console.error("Error in ai-flow:", err)
+let options: CliOptions
+try {
+  options = parseCliArgs(process.argv.slice(2))
+} catch (err: any) {
+  console.error(err.message)
   process.exit(1)
-})
+}
+
+if (options.local) {
+  // Initiates the AI Agent flow against the local git range.
+  runLocalFlow(options.local)
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(err => {
+      console.error("Error in ai-flow:", err)
+      process.exit(1)
+    })
+} else {
+  // Initiates the AI Agent flow.
+  runFlow()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(err => {
+      console.error("Error in ai-flow:", err)
+      process.exit(1)
+    })
+}